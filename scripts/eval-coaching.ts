@@ -0,0 +1,248 @@
+/**
+ * Coaching Engine Evaluation
+ *
+ * Replays labeled transcripts through generateCoachTip and detectJordanBehavior
+ * and reports per-rule precision/recall, false-positive examples and changes
+ * since the last baseline.
+ *
+ *   npm run eval:coaching                      # report, exit 1 on regressions
+ *   npm run eval:coaching -- --update-baseline # accept current results
+ *   npm run eval:coaching -- --corpus path/to/transcripts.jsonl
+ *
+ * Corpus format: one transcript per line,
+ *   { "id": "...", "scene": "bookstore", "persona": "jordan", "turns": [
+ *     { "role": "assistant", "content": "Hey! I'm Jordan..." },
+ *     { "role": "user", "content": "hi", "expect": { "tip": "selfIntro", "celebration": null } },
+ *     { "role": "assistant", "content": "...", "expect": { "insight": null } } ] }
+ *
+ * Only turns with "expect" are scored; a missing label means "nothing should
+ * fire". Transcripts replay free-running, like the app: each turn's cooldown,
+ * spacing and celebrated behaviors follow from what the engine actually did
+ * on earlier turns.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { detectTriggers, prioritize } from "../src/pages/guardrails";
+import { generateCoachTip, detectJordanBehavior, type CelebratedBehaviors } from "../src/pages/coachingEngine";
+import { jordanHasEnded } from "../src/pages/turnPipeline";
+import { replayPhase } from "../src/pages/conversationPhase";
+import { getScenario } from "../src/pages/scenarios";
+import type { TipId } from "../src/pages/tipCatalog";
+
+interface LabeledTurn {
+  role: "user" | "assistant";
+  content: string;
+  expect?: { tip?: string | null; celebration?: string | null; insight?: string | null };
+}
+
+interface Transcript {
+  id: string;
+  scene?: string;
+  persona?: string;
+  turns: LabeledTurn[];
+}
+
+type Kind = "tip" | "celebration" | "insight";
+
+interface Prediction {
+  key: string;                    // "<transcript id>#<turn index>"
+  content: string;
+  expected: Partial<Record<Kind, string | null>>;
+  actual: Partial<Record<Kind, string | null>>;
+}
+
+interface Baseline {
+  predictions: Record<string, Partial<Record<Kind, string | null>>>;
+}
+
+interface RuleCounts { tp: number; fp: number; fn: number }
+
+const args = process.argv.slice(2);
+const argValue = (flag: string) => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const corpusPath = resolve(argValue("--corpus") || "evals/coaching/transcripts.jsonl");
+const baselinePath = resolve(argValue("--baseline") || "evals/coaching/baseline.json");
+const updateBaseline = args.includes("--update-baseline");
+
+function loadCorpus(path: string): Transcript[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .map((line, i) => ({ line: line.trim(), lineNo: i + 1 }))
+    .filter(({ line }) => line && !line.startsWith("//"))
+    .map(({ line, lineNo }) => {
+      try {
+        return JSON.parse(line) as Transcript;
+      } catch (e) {
+        throw new Error(`${path}:${lineNo}: invalid JSON (${(e as Error).message})`);
+      }
+    });
+}
+
+function replay(transcript: Transcript): Prediction[] {
+  const predictions: Prediction[] = [];
+  const history: { role: "user" | "assistant"; content: string; coachTipId?: TipId }[] = [];
+  const celebrated: CelebratedBehaviors = {
+    askedFirstQuestion: false,
+    sharedPersonally: false,
+    activeListening: false,
+    gracefulClose: false,
+    followedSuggestion: false,
+    foundCommonGround: false,
+    usedContextClues: false,
+  };
+  let cooldown = false;
+
+  transcript.turns.forEach((turn, index) => {
+    const key = `${transcript.id}#${index}`;
+
+    if (turn.role === "assistant") {
+      history.push({ role: "assistant", content: turn.content });
+      if (turn.expect) {
+        const insight = detectJordanBehavior(history);
+        predictions.push({
+          key,
+          content: turn.content,
+          expected: { insight: turn.expect.insight ?? null },
+          actual: { insight: insight?.rule ?? null },
+        });
+      }
+      return;
+    }
+
+    const result = generateCoachTip({
+      userText: turn.content,
+      history: [...history],
+      triggerKind: prioritize(detectTriggers(turn.content)).kind,
+      cooldown,
+      jordanEndedConversation: jordanHasEnded(history),
+      celebratedBehaviors: { ...celebrated },
+      scene: transcript.scene,
+      persona: transcript.persona,
+      phase: replayPhase(history, getScenario(transcript.scene).phaseThresholds).phase,
+    });
+
+    if (turn.expect) {
+      predictions.push({
+        key,
+        content: turn.content,
+        expected: { tip: turn.expect.tip ?? null, celebration: turn.expect.celebration ?? null },
+        actual: { tip: result.rule ?? null, celebration: result.celebratedBehavior ?? null },
+      });
+    }
+
+    history.push({ role: "user", content: turn.content, coachTipId: result.tipId });
+    cooldown = !!result.tipId || !!result.chatMessage;
+    if (result.celebratedBehavior) celebrated[result.celebratedBehavior] = true;
+  });
+
+  return predictions;
+}
+
+function score(predictions: Prediction[]): Map<string, RuleCounts> {
+  const rules = new Map<string, RuleCounts>();
+  const counts = (rule: string) => {
+    if (!rules.has(rule)) rules.set(rule, { tp: 0, fp: 0, fn: 0 });
+    return rules.get(rule)!;
+  };
+
+  for (const p of predictions) {
+    for (const kind of Object.keys(p.expected) as Kind[]) {
+      const expected = p.expected[kind];
+      const actual = p.actual[kind];
+      if (expected && expected === actual) counts(`${kind}:${expected}`).tp++;
+      else {
+        if (actual) counts(`${kind}:${actual}`).fp++;
+        if (expected) counts(`${kind}:${expected}`).fn++;
+      }
+    }
+  }
+  return rules;
+}
+
+const label = (value: string | null | undefined) => value || "none";
+const ratio = (n: number, d: number) => (d === 0 ? "   -  " : (n / d).toFixed(2).padStart(6));
+const quote = (text: string) => JSON.stringify(text.length > 70 ? `${text.slice(0, 67)}...` : text);
+
+function isCorrect(expected: Prediction["expected"], actual: Prediction["actual"]): boolean {
+  return (Object.keys(expected) as Kind[]).every(kind => (expected[kind] ?? null) === (actual[kind] ?? null));
+}
+
+// --- Run ---
+const transcripts = loadCorpus(corpusPath);
+const predictions = transcripts.flatMap(replay);
+const rules = score(predictions);
+
+console.log(`Coaching eval: ${transcripts.length} transcripts, ${predictions.length} labeled turns\n`);
+
+console.log(`${"Rule".padEnd(32)}${"TP".padStart(4)}${"FP".padStart(4)}${"FN".padStart(4)}  Precision  Recall`);
+for (const [rule, c] of [...rules.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+  console.log(
+    `${rule.padEnd(32)}${String(c.tp).padStart(4)}${String(c.fp).padStart(4)}${String(c.fn).padStart(4)}` +
+    `     ${ratio(c.tp, c.tp + c.fp)}  ${ratio(c.tp, c.tp + c.fn)}`
+  );
+}
+
+const mismatches = predictions.filter(p => !isCorrect(p.expected, p.actual));
+const falsePositives = mismatches.flatMap(p =>
+  (Object.keys(p.expected) as Kind[])
+    .filter(kind => p.actual[kind] && p.actual[kind] !== p.expected[kind])
+    .map(kind => `  ${`${kind}:${p.actual[kind]}`.padEnd(30)} ${p.key.padEnd(28)} ${quote(p.content)} (expected ${label(p.expected[kind])})`)
+);
+const falseNegatives = mismatches.flatMap(p =>
+  (Object.keys(p.expected) as Kind[])
+    .filter(kind => p.expected[kind] && p.actual[kind] !== p.expected[kind])
+    .map(kind => `  ${`${kind}:${p.expected[kind]}`.padEnd(30)} ${p.key.padEnd(28)} ${quote(p.content)} (got ${label(p.actual[kind])})`)
+);
+
+if (falsePositives.length) console.log(`\nFalse positives (${falsePositives.length}):\n${falsePositives.join("\n")}`);
+if (falseNegatives.length) console.log(`\nFalse negatives (${falseNegatives.length}):\n${falseNegatives.join("\n")}`);
+
+const correct = predictions.length - mismatches.length;
+console.log(`\nAccuracy: ${correct}/${predictions.length} labeled turns`);
+
+// --- Baseline diff ---
+let regressions = 0;
+if (existsSync(baselinePath)) {
+  const baseline = JSON.parse(readFileSync(baselinePath, "utf8")) as Baseline;
+  const changes: string[] = [];
+
+  for (const p of predictions) {
+    const before = baseline.predictions[p.key];
+    if (!before) {
+      changes.push(`  + ${p.key.padEnd(28)} new turn`);
+      continue;
+    }
+    for (const kind of Object.keys(p.expected) as Kind[]) {
+      if ((before[kind] ?? null) === (p.actual[kind] ?? null)) continue;
+
+      const wasCorrect = (before[kind] ?? null) === (p.expected[kind] ?? null);
+      const nowCorrect = (p.actual[kind] ?? null) === (p.expected[kind] ?? null);
+      const verdict = nowCorrect ? "fixed" : wasCorrect ? "REGRESSED" : "still wrong";
+      if (wasCorrect && !nowCorrect) regressions++;
+      changes.push(`  ~ ${p.key.padEnd(28)} ${kind}: ${label(before[kind])} → ${label(p.actual[kind])}  [${verdict}]`);
+    }
+  }
+
+  const removed = Object.keys(baseline.predictions).filter(key => !predictions.some(p => p.key === key));
+  removed.forEach(key => changes.push(`  - ${key.padEnd(28)} no longer in corpus`));
+
+  console.log(changes.length
+    ? `\nChanges since baseline (${changes.length}, ${regressions} regressed):\n${changes.join("\n")}`
+    : "\nNo changes since baseline.");
+} else {
+  console.log(`\nNo baseline at ${baselinePath}; run with --update-baseline to create one.`);
+}
+
+if (updateBaseline) {
+  const baseline: Baseline = {
+    predictions: Object.fromEntries(predictions.map(p => [p.key, p.actual])),
+  };
+  writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + "\n");
+  console.log(`\nBaseline written to ${baselinePath}`);
+} else if (regressions > 0) {
+  process.exitCode = 1;
+}
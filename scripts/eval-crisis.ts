@@ -0,0 +1,183 @@
+/**
+ * Crisis Detection Evaluation
+ *
+ * Runs the labeled messages in evals/crisis/messages.jsonl through the
+ * keyword layer (screenForDistress, the same gate the turn pipeline uses)
+ * and a stub of the crisis-analysis LLM stage, fully offline.
+ *
+ *   npm run eval:crisis                          # default stub: tier1
+ *   npm run eval:crisis -- --stub confirm        # built-in stub
+ *   npm run eval:crisis -- --stub ./my-stub.ts   # module whose default export
+ *                                                # is (req) => Promise<CrisisAnalysis>
+ *   npm run eval:crisis -- --min-recall 0.9      # override the configured gate
+ *
+ * Built-in stubs:
+ *   tier1   Tier 1 hits are crises, everything else gets coaching
+ *   confirm every flagged message is a crisis (recall upper bound)
+ *   safe    nothing is a crisis (keyword layer on its own)
+ *
+ * Exits non-zero if Tier 1 recall at the keyword layer falls below
+ * tier1RecallThreshold in evals/crisis/config.json, the detection target
+ * (not the recall the keyword layer happens to reach today).
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { screenForDistress, type CrisisAnalysis, type CrisisAnalysisRequest, type PipelineTurn } from "../src/pages/turnPipeline";
+
+type Label = "tier1" | "tier2" | "benign";
+type Kind = "positive" | "negative" | "adversarial";
+
+interface LabeledMessage {
+  id: string;
+  text: string;
+  label: Label;
+  kind: Kind;
+  // Earlier user messages in the same conversation
+  history?: string[];
+  note?: string;
+}
+
+interface EvalConfig {
+  tier1RecallThreshold: number;
+}
+
+type CrisisStub = (req: CrisisAnalysisRequest) => Promise<CrisisAnalysis>;
+
+const BUILT_IN_STUBS: Record<string, CrisisStub> = {
+  tier1: async req => req.distressMetadata.tier === 1
+    ? { severity: "crisis", reason: "stub: tier 1 keyword" }
+    : { severity: "coaching", reason: "stub: tier 2 signal" },
+  confirm: async () => ({ severity: "crisis", reason: "stub: confirm all" }),
+  safe: async () => ({ severity: "safe", reason: "stub: never a crisis" }),
+};
+
+const args = process.argv.slice(2);
+const argValue = (flag: string) => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const datasetPath = resolve(argValue("--dataset") || "evals/crisis/messages.jsonl");
+const configPath = resolve(argValue("--config") || "evals/crisis/config.json");
+
+async function loadStub(name: string): Promise<CrisisStub> {
+  if (BUILT_IN_STUBS[name]) return BUILT_IN_STUBS[name];
+
+  const mod = await import(pathToFileURL(resolve(name)).href);
+  if (typeof mod.default !== "function") {
+    throw new Error(`Crisis stub ${name} must default-export (req) => Promise<CrisisAnalysis>`);
+  }
+  return mod.default;
+}
+
+function loadDataset(path: string): LabeledMessage[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as LabeledMessage;
+      } catch (e) {
+        throw new Error(`${path}:${i + 1}: invalid JSON (${(e as Error).message})`);
+      }
+    });
+}
+
+interface Outcome {
+  message: LabeledMessage;
+  tier1: boolean;        // keyword layer says Tier 1
+  signal: boolean;       // any distress signal, tracked or escalated
+  analyzed: boolean;     // sent to the LLM stage
+  crisis: boolean;       // stub confirmed a crisis (modal shown)
+  keywords: string[];
+}
+
+async function evaluate(message: LabeledMessage, stub: CrisisStub): Promise<Outcome> {
+  const history: PipelineTurn[] = (message.history || []).map(content => ({ role: "user", content }));
+  const screening = screenForDistress(message.text, history);
+
+  let crisis = false;
+  if (screening.shouldAnalyze) {
+    try {
+      crisis = (await stub(screening.request)).severity === "crisis";
+    } catch {
+      // Same fail-safe as the pipeline: a failed analysis is a crisis
+      crisis = true;
+    }
+  }
+
+  return {
+    message,
+    tier1: screening.distress.tier === 1,
+    signal: screening.shouldAnalyze || screening.distress.tier === 2,
+    analyzed: screening.shouldAnalyze,
+    crisis,
+    keywords: screening.request.distressMetadata.matchedKeywords,
+  };
+}
+
+const pct = (n: number, d: number) => (d === 0 ? "  -  " : `${((n / d) * 100).toFixed(1)}%`.padStart(6));
+const row = (name: string, n: number, d: number) => `  ${name.padEnd(44)} ${pct(n, d)}  (${n}/${d})`;
+const quote = (text: string) => JSON.stringify(text.length > 60 ? `${text.slice(0, 57)}...` : text);
+
+// --- Run ---
+const stubName = argValue("--stub") || "tier1";
+const stub = await loadStub(stubName);
+const config = JSON.parse(readFileSync(configPath, "utf8")) as EvalConfig;
+const threshold = Number(argValue("--min-recall") ?? config.tier1RecallThreshold);
+
+const messages = loadDataset(datasetPath);
+const outcomes = await Promise.all(messages.map(m => evaluate(m, stub)));
+
+const of = (label: Label, kind?: Kind) =>
+  outcomes.filter(o => o.message.label === label && (!kind || o.message.kind === kind));
+const count = (list: Outcome[], pick: (o: Outcome) => boolean) => list.filter(pick).length;
+
+const tier1 = of("tier1");
+const tier2 = of("tier2");
+const benign = of("benign");
+
+console.log(`Crisis eval: ${messages.length} messages (${tier1.length} tier 1, ${tier2.length} tier 2, ${benign.length} benign), stub "${stubName}"\n`);
+
+console.log("Keyword layer");
+console.log(row("Tier 1 recall (flagged as Tier 1)", count(tier1, o => o.tier1), tier1.length));
+console.log(row("  plain wording", count(of("tier1", "positive"), o => o.tier1), of("tier1", "positive").length));
+console.log(row("  adversarial spelling", count(of("tier1", "adversarial"), o => o.tier1), of("tier1", "adversarial").length));
+console.log(row("Tier 2 recall (any distress signal)", count(tier2, o => o.signal), tier2.length));
+console.log(row("Benign false positives (sent to LLM)", count(benign, o => o.analyzed), benign.length));
+console.log(row("Benign false positives (any signal)", count(benign, o => o.signal), benign.length));
+console.log(row("  small talk", count(of("benign", "negative"), o => o.signal), of("benign", "negative").length));
+console.log(row("  adversarial", count(of("benign", "adversarial"), o => o.signal), of("benign", "adversarial").length));
+
+console.log(`\nEnd to end (keyword layer + "${stubName}" stub)`);
+console.log(row("Tier 1 reaching the crisis modal", count(tier1, o => o.crisis), tier1.length));
+console.log(row("Benign reaching the crisis modal", count(benign, o => o.crisis), benign.length));
+
+const missed = tier1.filter(o => !o.tier1);
+if (missed.length) {
+  console.log(`\nMissed Tier 1 (${missed.length}):`);
+  missed.forEach(o => console.log(`  ${o.message.id.padEnd(26)} ${quote(o.message.text)}${o.keywords.length ? `  [tier 2: ${o.keywords.join(", ")}]` : ""}`));
+}
+
+const missedTier2 = tier2.filter(o => !o.signal);
+if (missedTier2.length) {
+  console.log(`\nMissed Tier 2 (${missedTier2.length}):`);
+  missedTier2.forEach(o => console.log(`  ${o.message.id.padEnd(26)} ${quote(o.message.text)}`));
+}
+
+const falsePositives = benign.filter(o => o.signal);
+if (falsePositives.length) {
+  console.log(`\nBenign messages flagged (${falsePositives.length}):`);
+  falsePositives.forEach(o => console.log(`  ${o.message.id.padEnd(26)} ${quote(o.message.text)}  [${o.keywords.join(", ") || "crisis trigger"}]`));
+}
+
+const recall = tier1.length ? count(tier1, o => o.tier1) / tier1.length : 1;
+if (recall < threshold) {
+  console.error(`\nFAIL: Tier 1 recall ${(recall * 100).toFixed(1)}% is below the ${(threshold * 100).toFixed(1)}% gate`);
+  process.exitCode = 1;
+} else {
+  console.log(`\nPASS: Tier 1 recall ${(recall * 100).toFixed(1)}% meets the ${(threshold * 100).toFixed(1)}% gate`);
+}
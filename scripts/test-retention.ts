@@ -0,0 +1,176 @@
+/**
+ * Retention Purge Tests
+ *
+ * Runs runRetentionPurge (src/pages/retention.ts) against an in-memory store
+ * that answers dueSessions the way the retention-purge function's queries do,
+ * and checks that the skill tally kept for a purged session rebuilds the
+ * same learner profile its transcript did.
+ *
+ *   npm run test:retention
+ *
+ * Exits non-zero if any case fails.
+ */
+
+import assert from "node:assert/strict";
+import {
+  DEFAULT_RETENTION_DAYS,
+  MAX_SESSIONS_PER_RUN,
+  runRetentionPurge,
+  type PurgeCandidate,
+  type RetentionStore,
+  type SessionCategory,
+} from "../src/pages/retention";
+import { deriveLearnerProfile, tallySession } from "../src/pages/learnerProfile";
+
+interface StoredSession extends PurgeCandidate {
+  crisis: boolean;
+  purged: boolean;
+}
+
+const NOW = Date.parse("2026-10-19T03:00:00Z");
+const daysBefore = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+let next = 0;
+const session = (endedDaysAgo: number, crisis = false): StoredSession => {
+  next++;
+  return {
+    id: `s-${next}`,
+    sessionCode: `CODE${next}`,
+    endedAt: daysBefore(endedDaysAgo),
+    crisis,
+    purged: false,
+  };
+};
+
+function memoryStore(sessions: StoredSession[], blockedAt: string[] = []) {
+  const purged: { id: string; category: SessionCategory; retentionDays: number }[] = [];
+  const store: RetentionStore = {
+    async dueSessions(category, endedBefore, limit) {
+      return sessions
+        .filter(s => !s.purged && s.crisis === (category === "crisis") && s.endedAt < endedBefore)
+        .sort((a, b) => a.endedAt.localeCompare(b.endedAt))
+        .slice(0, limit);
+    },
+    async purgeSession(candidate, category, retentionDays) {
+      const stored = sessions.find(s => s.id === candidate.id);
+      if (!stored || stored.purged) return false;
+      stored.purged = true;
+      purged.push({ id: candidate.id, category, retentionDays });
+      return true;
+    },
+    async purgeModerationLogs(blockedBefore) {
+      const due = blockedAt.filter(at => at < blockedBefore);
+      blockedAt = blockedAt.filter(at => at >= blockedBefore);
+      return due.length;
+    },
+  };
+  return { store, purged };
+}
+
+const cases: [string, () => Promise<void>][] = [
+  [`due crisis sessions aren't starved by more than ${MAX_SESSIONS_PER_RUN} not-yet-due normal sessions`, async () => {
+    // Older than the crisis window but inside the normal one
+    const normal = Array.from({ length: MAX_SESSIONS_PER_RUN + 50 }, (_, i) => session(40 + (i % 100)));
+    const crisis = session(35, true);
+    const { store, purged } = memoryStore([...normal, crisis]);
+
+    const summary = await runRetentionPurge(store, DEFAULT_RETENTION_DAYS, NOW);
+
+    assert.deepEqual(purged, [{ id: crisis.id, category: "crisis", retentionDays: DEFAULT_RETENTION_DAYS.crisis }]);
+    assert.equal(summary.sessions, 1);
+    assert.ok(normal.every(s => !s.purged));
+  }],
+
+  ["each category uses its own window", async () => {
+    const recentCrisis = session(10, true);
+    const dueCrisis = session(31, true);
+    const recentNormal = session(179);
+    const dueNormal = session(181);
+    const { store, purged } = memoryStore([recentCrisis, dueCrisis, recentNormal, dueNormal]);
+
+    await runRetentionPurge(store, DEFAULT_RETENTION_DAYS, NOW);
+
+    assert.deepEqual(purged.map(p => [p.id, p.category]), [[dueCrisis.id, "crisis"], [dueNormal.id, "normal"]]);
+  }],
+
+  ["configured windows override the defaults", async () => {
+    const crisis = session(8, true);
+    const normal = session(20);
+    const { store, purged } = memoryStore([crisis, normal]);
+
+    await runRetentionPurge(store, { normal: 14, crisis: 7, moderation_blocked: 30 }, NOW);
+
+    assert.deepEqual(purged, [
+      { id: crisis.id, category: "crisis", retentionDays: 7 },
+      { id: normal.id, category: "normal", retentionDays: 14 },
+    ]);
+  }],
+
+  ["each category is capped per run, oldest first", async () => {
+    const normal = Array.from({ length: MAX_SESSIONS_PER_RUN + 5 }, (_, i) => session(400 - i));
+    const { store, purged } = memoryStore(normal);
+
+    const first = await runRetentionPurge(store, DEFAULT_RETENTION_DAYS, NOW);
+    assert.equal(first.sessions, MAX_SESSIONS_PER_RUN);
+    assert.deepEqual(purged.map(p => p.id), normal.slice(0, MAX_SESSIONS_PER_RUN).map(s => s.id));
+
+    const second = await runRetentionPurge(store, DEFAULT_RETENTION_DAYS, NOW);
+    assert.equal(second.sessions, 5);
+  }],
+
+  ["sessions another run already purged aren't counted", async () => {
+    const crisis = session(40, true);
+    const { store } = memoryStore([crisis]);
+    const racing: RetentionStore = {
+      ...store,
+      async purgeSession() {
+        return false;
+      },
+    };
+
+    const summary = await runRetentionPurge(racing, DEFAULT_RETENTION_DAYS, NOW);
+    assert.equal(summary.sessions, 0);
+  }],
+
+  ["blocked replies are purged on their own window", async () => {
+    const { store } = memoryStore([], [daysBefore(31), daysBefore(29)]);
+
+    const summary = await runRetentionPurge(store, DEFAULT_RETENTION_DAYS, NOW);
+    assert.equal(summary.moderationLogs, 1);
+  }],
+
+  ["a purged session's kept tally rebuilds the same learner profile", async () => {
+    const transcript = [
+      { role: "assistant", content: "Hey! I'm Jordan." },
+      { role: "user", content: "hi", coachTip: { id: "greetingOnly", variant: 0 } },
+      { role: "assistant", content: "What brings you here?" },
+      { role: "user", content: "looking for a gift, what do you recommend?", coachTip: null },
+      { role: "coach", content: "Nice question!", coachTip: { id: "askedFirstQuestion", variant: 0 } },
+      { role: "assistant", content: "The mystery table is great." },
+      { role: "user", content: "cool, thanks", coachTip: null },
+    ];
+    const sessions = [0, 1, 2, 3].map(i => ({ id: `s-${i}`, startedAt: daysBefore(200 - i), transcript }));
+    // The first two purged, their tallies stored as jsonb
+    const purged = sessions.map((s, i) =>
+      i < 2 ? { ...s, transcript: [], tally: JSON.parse(JSON.stringify(tallySession(s.transcript))) } : s
+    );
+
+    assert.deepEqual(deriveLearnerProfile(purged), deriveLearnerProfile(sessions));
+    assert.equal(deriveLearnerProfile(purged).sessionCount, 4);
+  }],
+];
+
+let failed = 0;
+for (const [name, run] of cases) {
+  try {
+    await run();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+console.log(`\n${cases.length - failed}/${cases.length} cases passed`);
+if (failed) process.exit(1);
@@ -0,0 +1,46 @@
+/**
+ * Scripted Conversation Tests
+ *
+ * Replays every fixture in src/pages/fixtures/ through the turn pipeline with
+ * runScript and checks each turn's expectations.
+ *
+ *   npm run test:scripted                                  # all fixtures
+ *   npm run test:scripted -- src/pages/fixtures/exit-practice.json
+ *
+ * Exits non-zero if any turn misses its expectations or a fixture fails to
+ * load.
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import { runScript } from "../src/pages/scriptedMock";
+
+const fixturesDir = resolve("src/pages/fixtures");
+
+const args = process.argv.slice(2);
+const paths = args.length
+  ? args.map(p => resolve(p))
+  : readdirSync(fixturesDir).filter(f => f.endsWith(".json")).sort().map(f => join(fixturesDir, f));
+
+let failed = 0;
+for (const path of paths) {
+  const name = relative(process.cwd(), path);
+  try {
+    const results = await runScript(JSON.parse(readFileSync(path, "utf8")));
+    const failures = results.flatMap(r => r.failures);
+    if (failures.length) {
+      failed++;
+      console.log(`✗ ${name}`);
+      failures.forEach(f => console.log(`    ${f}`));
+    } else {
+      console.log(`✓ ${name} (${results.length} turns)`);
+    }
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+console.log(`\n${paths.length - failed}/${paths.length} fixtures passed`);
+if (failed) process.exit(1);
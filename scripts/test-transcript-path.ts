@@ -0,0 +1,56 @@
+/**
+ * Transcript Path Tests
+ *
+ * Checks which turn events pathEvents (src/pages/transcriptPath.ts) assigns
+ * to the current path and to each rewound one.
+ *
+ *   npm run test:transcript-path
+ *
+ * Exits non-zero if any case fails.
+ */
+
+import assert from "node:assert/strict";
+import { pathEvents } from "../src/pages/transcriptPath";
+
+const event = (branch: number, turn_index: number) => ({ branch, turn_index, id: `${branch}:${turn_index}` });
+const ids = (byIndex: Record<number, { id: string }>) =>
+  Object.fromEntries(Object.entries(byIndex).map(([index, e]) => [index, e.id]));
+
+// Learner messages at 1, 3, 5 and 7 on branch 0; rewound to 5 (branch 1
+// resent 5 and 7), then rewound to 3 (branch 2 resent 3)
+const events = [
+  event(0, 1), event(0, 3), event(0, 5), event(0, 7),
+  event(1, 5), event(1, 7),
+  event(2, 3),
+];
+const rewinds = [{ at: 5 }, { at: 3 }];
+
+const cases: [string, () => void][] = [
+  ["the current path keeps events from the branch each message was sent on", () => {
+    assert.deepEqual(ids(pathEvents(events, rewinds)), { 1: "0:1", 3: "2:3" });
+  }],
+
+  ["a rewound path shows the events it had when it was rewound", () => {
+    assert.deepEqual(ids(pathEvents(events, rewinds, 0)), { 1: "0:1", 3: "0:3", 5: "0:5", 7: "0:7" });
+    assert.deepEqual(ids(pathEvents(events, rewinds, 1)), { 1: "0:1", 3: "0:3", 5: "1:5", 7: "1:7" });
+  }],
+
+  ["sessions that were never rewound keep every event", () => {
+    assert.deepEqual(ids(pathEvents([event(0, 1), event(0, 3)], [])), { 1: "0:1", 3: "0:3" });
+  }],
+];
+
+let failed = 0;
+for (const [name, run] of cases) {
+  try {
+    run();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${name}`);
+    console.log(`    ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+console.log(`\n${cases.length - failed}/${cases.length} cases passed`);
+if (failed) process.exit(1);
@@ -1,13 +1,19 @@
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { User } from "lucide-react";
+import { Undo2, User, Wand2 } from "lucide-react";
 
 interface MessageBubbleProps {
   role: "user" | "assistant";
   content: string;
   isGrouped?: boolean;
+  isStreaming?: boolean;
+  // Shows "How could I say that better?" under the learner's message
+  onSuggest?: () => void;
+  suggestLoading?: boolean;
+  // Shows "Try again from here" under the learner's message
+  onRewind?: () => void;
 }
 
-export const MessageBubble = ({ role, content, isGrouped = false }: MessageBubbleProps) => {
+export const MessageBubble = ({ role, content, isGrouped = false, isStreaming = false, onSuggest, suggestLoading = false, onRewind }: MessageBubbleProps) => {
   const isUser = role === "user";
 
   return (
@@ -38,19 +44,49 @@ export const MessageBubble = ({ role, content, isGrouped = false }: MessageBubbl
       )}
 
       {/* Message Content */}
-      <div
-        className={`
-          max-w-[75%] sm:max-w-[70%] px-5 py-3.5 rounded-3xl
-          ${isUser 
-            ? "bg-gradient-to-br from-primary to-accent text-primary-foreground" 
-            : "bg-muted/60 border border-border/40 text-foreground clean-shadow"
-          }
-          transition-all duration-200
-        `}
-      >
-        <p className="text-[15px] leading-relaxed whitespace-pre-wrap break-words">
-          {content}
-        </p>
+      <div className={`flex flex-col gap-1 max-w-[75%] sm:max-w-[70%] ${isUser ? "items-end" : "items-start"}`}>
+        <div
+          className={`
+            px-5 py-3.5 rounded-3xl
+            ${isUser 
+              ? "bg-gradient-to-br from-primary to-accent text-primary-foreground" 
+              : "bg-muted/60 border border-border/40 text-foreground clean-shadow"
+            }
+            transition-all duration-200
+          `}
+        >
+          <p className="text-[15px] leading-relaxed whitespace-pre-wrap break-words">
+            {content}
+            {isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/50 animate-pulse" />
+            )}
+          </p>
+        </div>
+        {(onSuggest || onRewind) && (
+          <div className="flex items-center gap-3 px-2">
+            {onRewind && (
+              <button
+                type="button"
+                onClick={onRewind}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors"
+              >
+                <Undo2 className="w-3 h-3" />
+                Try again from here
+              </button>
+            )}
+            {onSuggest && (
+              <button
+                type="button"
+                onClick={onSuggest}
+                disabled={suggestLoading}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-60"
+              >
+                <Wand2 className={`w-3 h-3 ${suggestLoading ? "animate-pulse" : ""}`} />
+                {suggestLoading ? "Thinking…" : "How could I say that better?"}
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,33 @@
+import { Wand2 } from "lucide-react";
+import { SUGGESTION_CATEGORY_LABELS, type ReplySuggestions } from "@/pages/replySuggestions";
+
+interface ReplySuggestionsCardProps {
+  suggestions: ReplySuggestions;
+}
+
+export const ReplySuggestionsCard = ({ suggestions }: ReplySuggestionsCardProps) => {
+  return (
+    <div className="flex justify-center animate-fade-in">
+      <div className="max-w-xl w-full px-5 py-4 rounded-2xl border bg-accent/10 border-accent/30 text-foreground clean-shadow">
+        <div className="flex items-start gap-3">
+          <div className="shrink-0 mt-0.5 text-accent">
+            <Wand2 className="w-5 h-5" />
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wider opacity-60">
+              You could also say · {SUGGESTION_CATEGORY_LABELS[suggestions.category]}
+            </p>
+            <ul className="space-y-1.5">
+              {suggestions.suggestions.map((suggestion, i) => (
+                <li key={i} className="text-sm italic leading-relaxed">"{suggestion}"</li>
+              ))}
+            </ul>
+            <p className="text-sm leading-relaxed text-muted-foreground">
+              {suggestions.explanation}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
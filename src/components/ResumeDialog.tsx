@@ -0,0 +1,55 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { MessageCircle } from "lucide-react";
+
+interface ResumeDialogProps {
+  open: boolean;
+  name: string;
+  sceneTitle: string;
+  exchanges: number;
+  loading?: boolean;
+  onContinue: () => void;
+  onStartOver: () => void;
+}
+
+export const ResumeDialog = ({ open, name, sceneTitle, exchanges, loading, onContinue, onStartOver }: ResumeDialogProps) => {
+  return (
+    <Dialog open={open}>
+      <DialogContent className="max-w-md border-border/50 rounded-3xl p-8">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-3xl font-bold text-center bg-gradient-to-r from-primary via-primary to-accent bg-clip-text text-transparent">
+            Welcome back
+          </DialogTitle>
+          <DialogDescription className="text-center text-base leading-relaxed text-muted-foreground">
+            You were in the middle of a conversation with {name} · {sceneTitle} · {exchanges} exchanges
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center my-6">
+          <div className="p-4 rounded-full bg-gradient-to-br from-primary/15 to-accent/15">
+            <MessageCircle className="w-12 h-12 text-primary" strokeWidth={1.5} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Button
+            onClick={onContinue}
+            disabled={loading}
+            className="w-full h-14 text-base font-semibold bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity rounded-2xl"
+            size="lg"
+          >
+            Continue your conversation with {name}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={onStartOver}
+            disabled={loading}
+            className="w-full h-12 text-base rounded-2xl"
+          >
+            Start a new conversation
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,458 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, Save, Upload, EyeOff, FileText } from "lucide-react";
+import { buildSystemPrompt } from "@/pages/JordanEngine";
+import { listScenarios, learnerSceneContext, scenarioPackSchema, type ScenarioPack } from "@/pages/scenarios";
+import { getPersona, personalize } from "@/pages/personas";
+
+interface ScenarioRow {
+  id: string;
+  slug: string;
+  pack: ScenarioPack;
+  status: string;
+  updated_at: string | null;
+  published_at: string | null;
+}
+
+// Form state mirrors the pack, with list fields as editable text
+interface ScenarioForm {
+  id: string;
+  title: string;
+  setting: string;
+  learnerSetting: string;
+  clues: { description: string; keywords: string }[];
+  openingLines: string;
+  allowedTopics: string;
+  opening: string;
+  balancing: string;
+  wrappingUp: string;
+  extension: string;
+  streamingMode: ScenarioPack["streamingMode"];
+}
+
+const EMPTY_FORM: ScenarioForm = {
+  id: "",
+  title: "",
+  setting: "",
+  learnerSetting: "",
+  clues: [],
+  openingLines: "",
+  allowedTopics: "",
+  opening: "3",
+  balancing: "6",
+  wrappingUp: "10",
+  extension: "3",
+  streamingMode: "buffered",
+};
+
+function packToForm(pack: ScenarioPack): ScenarioForm {
+  return {
+    id: pack.id,
+    title: pack.title,
+    setting: pack.setting,
+    learnerSetting: pack.learnerSetting,
+    clues: pack.contextClues.map(c => ({ description: c.description, keywords: c.keywords.join(", ") })),
+    openingLines: pack.openingLines.join("\n"),
+    allowedTopics: pack.allowedTopics.join(", "),
+    opening: String(pack.phaseThresholds.opening),
+    balancing: String(pack.phaseThresholds.balancing),
+    wrappingUp: String(pack.phaseThresholds.wrappingUp),
+    extension: String(pack.phaseThresholds.extension),
+    streamingMode: pack.streamingMode,
+  };
+}
+
+function splitList(text: string, separator: string | RegExp): string[] {
+  return text.split(separator).map(s => s.trim()).filter(Boolean);
+}
+
+function formToPack(form: ScenarioForm) {
+  return scenarioPackSchema.safeParse({
+    id: form.id.trim(),
+    title: form.title.trim(),
+    setting: form.setting.trim(),
+    learnerSetting: form.learnerSetting.trim(),
+    contextClues: form.clues
+      .filter(c => c.description.trim())
+      .map(c => ({ description: c.description.trim(), keywords: splitList(c.keywords, ",") })),
+    openingLines: splitList(form.openingLines, "\n"),
+    allowedTopics: splitList(form.allowedTopics, ","),
+    phaseThresholds: {
+      opening: Number(form.opening),
+      balancing: Number(form.balancing),
+      wrappingUp: Number(form.wrappingUp),
+      extension: Number(form.extension),
+    },
+    streamingMode: form.streamingMode,
+  });
+}
+
+export const ScenarioManager = () => {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ScenarioRow[]>([]);
+  const [form, setForm] = useState<ScenarioForm>(EMPTY_FORM);
+  const [editingRowId, setEditingRowId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadScenarios();
+  }, []);
+
+  const parsed = useMemo(() => formToPack(form), [form]);
+  const editingRow = rows.find(r => r.id === editingRowId);
+
+  async function loadScenarios() {
+    const { data, error } = await supabase
+      .from("scenarios")
+      .select("*")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading scenarios:", error);
+      toast({
+        title: "Error loading scenarios",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setRows((data || []) as unknown as ScenarioRow[]);
+  }
+
+  function startFrom(pack: ScenarioPack | null, rowId: string | null = null) {
+    setForm(pack ? packToForm(pack) : EMPTY_FORM);
+    setEditingRowId(rowId);
+  }
+
+  async function save(status: "draft" | "published") {
+    if (!parsed.success) {
+      toast({
+        title: "Scenario has errors",
+        description: "Fix the highlighted fields before saving.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const pack = parsed.data;
+    const fields = {
+      slug: pack.id,
+      pack,
+      status,
+      published_at: status === "published" ? new Date().toISOString() : editingRow?.published_at ?? null,
+    };
+
+    let error;
+    if (editingRowId) {
+      ({ error } = await supabase.from("scenarios").update(fields).eq("id", editingRowId));
+    } else {
+      const { data: { user } } = await supabase.auth.getUser();
+      const result = await supabase
+        .from("scenarios")
+        .insert({ ...fields, created_by: user?.id })
+        .select()
+        .single();
+      error = result.error;
+      if (result.data) setEditingRowId(result.data.id);
+    }
+
+    if (error) {
+      toast({
+        title: "Error saving scenario",
+        description: error.code === "23505" ? `A scenario with id "${pack.id}" already exists` : error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: status === "published" ? "Scenario published" : "Draft saved",
+      description: status === "published"
+        ? `Learners can now pick "${pack.title}"`
+        : `"${pack.title}" is saved but not visible to learners`,
+    });
+    loadScenarios();
+  }
+
+  async function unpublish(row: ScenarioRow) {
+    const { error } = await supabase.from("scenarios").update({ status: "draft" }).eq("id", row.id);
+    if (error) {
+      toast({ title: "Error unpublishing", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Scenario unpublished", description: `"${row.pack.title}" is hidden from learners` });
+    loadScenarios();
+  }
+
+  async function remove(row: ScenarioRow) {
+    const { error } = await supabase.from("scenarios").delete().eq("id", row.id);
+    if (error) {
+      toast({ title: "Error deleting scenario", description: error.message, variant: "destructive" });
+      return;
+    }
+    if (editingRowId === row.id) startFrom(null);
+    loadScenarios();
+  }
+
+  const update = (field: keyof ScenarioForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm(f => ({ ...f, [field]: e.target.value }));
+
+  const errorsFor = (path: string) =>
+    parsed.success ? [] : parsed.error.issues.filter(i => i.path.join(".").startsWith(path)).map(i => i.message);
+
+  const FieldErrors = ({ path }: { path: string }) => (
+    <>
+      {errorsFor(path).map((msg, i) => (
+        <p key={i} className="text-xs text-destructive">{msg}</p>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Scenario List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="text-lg">Scenarios</CardTitle>
+          <CardDescription>Published scenarios appear in the learner's scene picker</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button variant="outline" className="w-full" onClick={() => startFrom(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Scenario
+          </Button>
+
+          <div className="space-y-2">
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No custom scenarios yet</p>
+            ) : (
+              rows.map(row => (
+                <div
+                  key={row.id}
+                  className={`p-3 rounded-lg border cursor-pointer hover:bg-muted/50 ${editingRowId === row.id ? "border-primary" : ""}`}
+                  onClick={() => startFrom(row.pack, row.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium text-sm">{row.pack.title}</p>
+                    <Badge variant={row.status === "published" ? "default" : "outline"}>
+                      {row.status === "published" ? "Published" : "Draft"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">{row.slug}</p>
+                  <div className="flex gap-1 mt-2">
+                    {row.status === "published" && (
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); unpublish(row); }}>
+                        <EyeOff className="w-3 h-3 mr-1" />
+                        Unpublish
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); remove(row); }}>
+                      <Trash2 className="w-3 h-3 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="pt-4 border-t space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Start from a built-in scene</p>
+            {listScenarios().map(pack => (
+              <Button key={pack.id} variant="ghost" size="sm" className="w-full justify-start" onClick={() => startFrom(pack)}>
+                <FileText className="w-3 h-3 mr-2" />
+                {pack.title}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Editor + Preview */}
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{editingRow ? `Edit "${editingRow.pack.title}"` : "New Scenario"}</CardTitle>
+            <CardDescription>
+              Using the id of a built-in scene (e.g. "bookstore") replaces that scene once published
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Id</Label>
+                <Input placeholder="e.g. bus-stop" value={form.id} onChange={update("id")} className="font-mono" />
+                <FieldErrors path="id" />
+              </div>
+              <div className="space-y-2">
+                <Label>Title</Label>
+                <Input placeholder="e.g. Bus stop" value={form.title} onChange={update("title")} />
+                <FieldErrors path="title" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>What Jordan is told about the setting</Label>
+              <Textarea
+                placeholder="You are waiting at a bus stop near campus and see the learner checking the schedule."
+                value={form.setting}
+                onChange={update("setting")}
+              />
+              <FieldErrors path="setting" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>What the learner sees</Label>
+              <Textarea
+                placeholder="You are waiting at a bus stop near campus. {name} is standing next to you, checking the schedule."
+                value={form.learnerSetting}
+                onChange={update("learnerSetting")}
+              />
+              <FieldErrors path="learnerSetting" />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Visible context clues</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm(f => ({ ...f, clues: [...f.clues, { description: "", keywords: "" }] }))}
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add clue
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Describe anything scene-specific Jordan is wearing or carrying (e.g. "holding a bus pass"), plus words that show the learner noticed it. Each persona's own clues are added automatically.
+              </p>
+              {form.clues.map((clue, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    placeholder="wearing a Nirvana band shirt"
+                    value={clue.description}
+                    onChange={(e) => setForm(f => ({
+                      ...f,
+                      clues: f.clues.map((c, j) => j === i ? { ...c, description: e.target.value } : c),
+                    }))}
+                  />
+                  <Input
+                    placeholder="nirvana, band, shirt"
+                    value={clue.keywords}
+                    onChange={(e) => setForm(f => ({
+                      ...f,
+                      clues: f.clues.map((c, j) => j === i ? { ...c, keywords: e.target.value } : c),
+                    }))}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm(f => ({ ...f, clues: f.clues.filter((_, j) => j !== i) }))}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Opening lines (one per line, Jordan picks one at random; {"{name}"} is the persona's name)</Label>
+              <Textarea
+                placeholder="Hey! I'm {name}. Any idea if the 42 is running late?"
+                value={form.openingLines}
+                onChange={update("openingLines")}
+              />
+              <FieldErrors path="openingLines" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Allowed topics (comma separated)</Label>
+              <Input placeholder="commuting, campus life, weekend plans" value={form.allowedTopics} onChange={update("allowedTopics")} />
+              <FieldErrors path="allowedTopics" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Phase bounds (learner messages)</Label>
+              <div className="grid grid-cols-4 gap-2">
+                <Input type="number" min={1} value={form.opening} onChange={update("opening")} aria-label="Opening" />
+                <Input type="number" min={1} value={form.balancing} onChange={update("balancing")} aria-label="Balancing" />
+                <Input type="number" min={1} value={form.wrappingUp} onChange={update("wrappingUp")} aria-label="Wrapping up" />
+                <Input type="number" min={0} value={form.extension} onChange={update("extension")} aria-label="Extension" />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Opening • Balancing • Wrapping up • Extra while engaged. Phases end by these counts unless the learner asks back early, disengages or says goodbye.
+              </p>
+              <FieldErrors path="phaseThresholds" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reply streaming</Label>
+              <Select
+                value={form.streamingMode}
+                onValueChange={(v) => setForm(f => ({ ...f, streamingMode: v as ScenarioForm["streamingMode"] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buffered">Buffered — show Jordan's reply after moderation (safest)</SelectItem>
+                  <SelectItem value="optimistic">Optimistic — show words as they arrive (low-risk scenes only)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" onClick={() => save("draft")} disabled={!parsed.success}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Draft
+              </Button>
+              <Button onClick={() => save("published")} disabled={!parsed.success}>
+                <Upload className="w-4 h-4 mr-2" />
+                Publish
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Preview</CardTitle>
+            <CardDescription>Exactly what the learner sees and what Jordan is told at the start of the conversation, with the default persona</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {parsed.success ? (
+              <>
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Scene context (learner)</p>
+                  <div className="p-3 rounded-lg bg-green-100 border border-green-300 text-black text-sm">
+                    {learnerSceneContext(parsed.data, getPersona(), "they")}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Opening line</p>
+                  {parsed.data.openingLines.map((line, i) => (
+                    <div key={i} className="p-3 rounded-lg bg-muted/50 text-sm">{personalize(line, getPersona())}</div>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">System prompt</p>
+                  <pre className="p-3 rounded-lg bg-muted/50 border text-xs whitespace-pre-wrap max-h-96 overflow-y-auto">
+                    {buildSystemPrompt(parsed.data, "they")}
+                  </pre>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">Fill in the required fields to see a preview</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, Sparkles } from "lucide-react";
+import { REPORT_SKILLS, REPORT_SKILL_LABELS, type SessionReport } from "@/pages/sessionReport";
+import { getTip, renderTip } from "@/pages/tipCatalog";
+
+interface SessionReportViewProps {
+  report: SessionReport;
+  // Conversation partner's name, for {name} in tips and advice
+  name: string;
+  // Start with the annotated transcript expanded
+  showTranscript?: boolean;
+}
+
+const fill = (text: string, name: string) => text.replace(/\{name\}/g, name);
+
+/**
+ * Skills radar, "try this instead" rewrites and the annotated transcript.
+ * Shared by the end-of-session summary and the admin dashboard.
+ */
+export const SessionReportView = ({ report, name, showTranscript = false }: SessionReportViewProps) => {
+  const [transcriptOpen, setTranscriptOpen] = useState(showTranscript);
+  const radarData = REPORT_SKILLS.map(skill => ({ skill: REPORT_SKILL_LABELS[skill], score: report.skills[skill] }));
+
+  return (
+    <div className="space-y-6">
+      {/* Skills radar */}
+      <div className="space-y-2">
+        <h3 className="font-semibold text-foreground">Your skills this session</h3>
+        <ResponsiveContainer width="100%" height={260}>
+          <RadarChart data={radarData} outerRadius="70%">
+            <PolarGrid className="opacity-40" />
+            <PolarAngleAxis dataKey="skill" className="text-xs" />
+            <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+            <Tooltip contentStyle={{ backgroundColor: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }} />
+            <Radar name="Score" dataKey="score" stroke="hsl(var(--primary))" fill="hsl(var(--primary))" fillOpacity={0.3} />
+          </RadarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Try this instead */}
+      {report.rewrites.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-foreground">Try this instead</h3>
+          {report.rewrites.map(rewrite => (
+            <div key={rewrite.turnIndex} className="p-4 rounded-xl bg-gradient-to-br from-muted/50 to-muted/30 border border-border space-y-2">
+              <p className="text-sm text-muted-foreground line-through decoration-muted-foreground/50">"{rewrite.original}"</p>
+              <p className="text-sm italic leading-relaxed text-foreground">"{rewrite.suggestion}"</p>
+              <p className="text-xs text-muted-foreground">{fill(rewrite.why, name)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Annotated transcript */}
+      <Collapsible open={transcriptOpen} onOpenChange={setTranscriptOpen}>
+        <CollapsibleTrigger className="flex items-center gap-1.5 text-sm font-medium text-primary hover:underline">
+          {transcriptOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {transcriptOpen ? "Hide" : "Replay"} the conversation
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-3 space-y-2">
+          {report.turns.filter(t => t.role !== "coach").map((turn, i) => (
+            <div key={i} className={`p-3 rounded-lg ${turn.role === "user" ? "bg-primary/10 ml-6" : "bg-muted/50 mr-6"}`}>
+              <p className="text-xs font-semibold text-muted-foreground mb-1">{turn.role === "user" ? "YOU" : name.toUpperCase()}</p>
+              <p className="text-sm leading-relaxed">{turn.content}</p>
+              {turn.annotation && (turn.annotation.skills.length > 0 || turn.annotation.tips.length > 0) && (
+                <div className="mt-2 space-y-1.5">
+                  {turn.annotation.skills.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {turn.annotation.skills.map(skill => (
+                        <Badge key={skill} variant="secondary" className="text-xs font-normal">{REPORT_SKILL_LABELS[skill]}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  {turn.annotation.tips.map(tip => (
+                    <p key={tip.id} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                      <Sparkles className={`w-3 h-3 mt-0.5 shrink-0 ${getTip(tip.id).category === "celebration" ? "text-primary" : "text-accent"}`} />
+                      <span>{renderTip(tip, { vars: { name } })}</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
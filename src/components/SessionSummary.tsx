@@ -1,13 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Trophy, TrendingUp, MessageSquare, Copy, CheckCircle } from "lucide-react";
+import { SessionReportView } from "@/components/SessionReportView";
+import type { SessionReport } from "@/pages/sessionReport";
 
 interface SessionSummaryProps {
-  summary: {
-    practiced: string[];
-    improve: string[];
-    sampleLine: string;
-  };
+  report: SessionReport;
+  // Conversation partner's name
+  name: string;
   onReset: () => void;
   sessionId: string;
   sessionCopied: boolean;
@@ -15,7 +15,8 @@ interface SessionSummaryProps {
 }
 
 export const SessionSummary = ({ 
-  summary, 
+  report, 
+  name, 
   onReset, 
   sessionId, 
   sessionCopied, 
@@ -39,20 +40,20 @@ export const SessionSummary = ({
 
       <CardContent className="space-y-6 relative z-10">
         {/* What Went Well */}
-        {summary.practiced.length > 0 && (
+        {report.strengths.length > 0 && (
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <TrendingUp className="w-5 h-5 text-primary" />
               <h3 className="font-semibold text-foreground">What You Did Well</h3>
             </div>
             <ul className="space-y-2">
-              {summary.practiced.map((item, i) => (
+              {report.strengths.map((item, i) => (
                 <li 
                   key={i} 
                   className="flex items-start gap-3 p-3 rounded-xl bg-gradient-to-r from-primary/10 to-accent/10 border border-primary/20"
                 >
                   <span className="text-primary mt-0.5">✓</span>
-                  <span className="text-sm leading-relaxed">{item}</span>
+                  <span className="text-sm leading-relaxed">{item.replace(/\{name\}/g, name)}</span>
                 </li>
               ))}
             </ul>
@@ -60,29 +61,19 @@ export const SessionSummary = ({
         )}
 
         {/* Largest Area for Growth */}
-        {summary.improve.length > 0 && (
+        {report.focus && (
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <MessageSquare className="w-5 h-5 text-accent" />
               <h3 className="font-semibold text-foreground">Your Biggest Area for Growth</h3>
             </div>
             <div className="p-4 rounded-xl bg-gradient-to-r from-accent/10 to-primary/10 border border-accent/20">
-              <p className="text-sm leading-relaxed font-medium">{summary.improve[0]}</p>
+              <p className="text-sm leading-relaxed font-medium">{report.focus.replace(/\{name\}/g, name)}</p>
             </div>
           </div>
         )}
 
-        {/* Sample Line */}
-        {summary.sampleLine && (
-          <div className="p-4 rounded-xl bg-gradient-to-br from-muted/50 to-muted/30 border border-border">
-            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
-              Try This Next Time
-            </p>
-            <p className="text-sm italic leading-relaxed text-foreground">
-              "{summary.sampleLine}"
-            </p>
-          </div>
-        )}
+        <SessionReportView report={report} name={name} />
 
         {/* Session ID */}
         {sessionId && (
@@ -1,28 +1,56 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { MessageCircle, ArrowRight, ExternalLink, ChevronDown, ChevronUp } from "lucide-react";
-import { SCENES, type Scene } from "@/pages/constants";
+import { DEFAULTS, type Scene } from "@/pages/constants";
+import { listScenarios } from "@/pages/scenarios";
+import { loadPublishedScenarios } from "@/pages/scenarioStore";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, getDifficulty, type Difficulty } from "@/pages/difficulty";
+import { DEFAULT_PERSONA_ID, getPersona, listPersonas, personalize } from "@/pages/personas";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 
 interface SetupDialogProps {
   open: boolean;
   onStartConversation: (setup: {
     scene: Scene;
+    persona: string;
     interlocutor: "he" | "she" | "they" | "neutral";
+    difficulty: Difficulty;
+    autoDifficulty: boolean;
+    exitPractice: boolean;
     ageConfirmed: boolean;
   }) => void;
 }
 
 export const SetupDialog = ({ open, onStartConversation }: SetupDialogProps) => {
   const [page, setPage] = useState<1 | 2>(1);
-  const [scene, setScene] = useState<Scene>("bookstore");
-  const [interlocutor, setInterlocutor] = useState<"he" | "she" | "they" | "neutral">("they");
+  const [scene, setScene] = useState<Scene>(DEFAULTS.scene);
+  const [personaId, setPersonaId] = useState(DEFAULT_PERSONA_ID);
+  const [interlocutor, setInterlocutor] = useState<"he" | "she" | "they" | "neutral">(getPersona().pronouns);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [autoDifficulty, setAutoDifficulty] = useState(false);
+  const [exitPractice, setExitPractice] = useState(false);
   const [ageConfirmed, setAgeConfirmed] = useState(false);
   const [showResources, setShowResources] = useState(false);
+  const [scenes, setScenes] = useState(listScenarios);
+
+  // Pick up scenarios published from the admin dashboard
+  useEffect(() => {
+    if (open) {
+      loadPublishedScenarios().then(() => setScenes(listScenarios()));
+    }
+  }, [open]);
+
+  const persona = getPersona(personaId);
+
+  // Each persona comes with their own pronouns; the learner can still change them
+  const handlePersonaChange = (id: string) => {
+    setPersonaId(id);
+    setInterlocutor(getPersona(id).pronouns);
+  };
 
   const canProceedToPage2 = !!scene && !!interlocutor;
   const canStart = ageConfirmed;
@@ -35,7 +63,7 @@ export const SetupDialog = ({ open, onStartConversation }: SetupDialogProps) =>
 
   const handleStart = () => {
     if (canStart) {
-      onStartConversation({ scene, interlocutor, ageConfirmed });
+      onStartConversation({ scene, persona: personaId, interlocutor, difficulty, autoDifficulty, exitPractice, ageConfirmed });
     }
   };
 
@@ -66,22 +94,43 @@ export const SetupDialog = ({ open, onStartConversation }: SetupDialogProps) =>
                   Choose a scene
                 </Label>
                 <Select value={scene} onValueChange={(v) => setScene(v as Scene)}>
-                  <SelectTrigger className="h-12 text-base border-border/50 rounded-xl capitalize">
+                  <SelectTrigger className="h-12 text-base border-border/50 rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scenes.map((s) => (
+                      <SelectItem key={s.id} value={s.id} className="text-base">
+                        {s.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-foreground">
+                  Who you'll talk to
+                </Label>
+                <Select value={personaId} onValueChange={handlePersonaChange}>
+                  <SelectTrigger className="h-12 text-base border-border/50 rounded-xl">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {SCENES.map((s) => (
-                      <SelectItem key={s} value={s} className="capitalize text-base">
-                        {s}
+                    {listPersonas().map((p) => (
+                      <SelectItem key={p.id} value={p.id} className="text-base">
+                        {p.name} <span className="text-muted-foreground capitalize">· {p.temperament}</span>
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground leading-relaxed">
+                  {persona.background} Into {persona.interests.join(", ")}.
+                </p>
               </div>
 
               <div className="space-y-3">
                 <Label className="text-sm font-semibold text-foreground">
-                  Jordan's pronouns
+                  {persona.name}'s pronouns
                 </Label>
                 <Select value={interlocutor} onValueChange={(v) => setInterlocutor(v as any)}>
                   <SelectTrigger className="h-12 text-base border-border/50 rounded-xl">
@@ -95,6 +144,53 @@ export const SetupDialog = ({ open, onStartConversation }: SetupDialogProps) =>
                 </Select>
               </div>
 
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-foreground">
+                  Difficulty
+                </Label>
+                <Select value={difficulty} onValueChange={(v) => setDifficulty(v as Difficulty)}>
+                  <SelectTrigger className="h-12 text-base border-border/50 rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map((d) => (
+                      <SelectItem key={d} value={d} className="text-base">
+                        {getDifficulty(d).label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground leading-relaxed">
+                  {personalize(getDifficulty(difficulty).description, persona)}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="auto-difficulty"
+                    checked={autoDifficulty}
+                    onCheckedChange={(checked) => setAutoDifficulty(checked as boolean)}
+                  />
+                  <Label htmlFor="auto-difficulty" className="text-sm font-normal cursor-pointer">
+                    Adjust as I go
+                  </Label>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="exit-practice"
+                    checked={exitPractice}
+                    onCheckedChange={(checked) => setExitPractice(checked as boolean)}
+                  />
+                  <Label htmlFor="exit-practice" className="text-sm font-semibold cursor-pointer">
+                    Practice leaving the conversation
+                  </Label>
+                </div>
+                <p className="text-xs text-muted-foreground leading-relaxed">
+                  {persona.name} won't wrap things up. Ending the conversation is up to you, and you'll get feedback on how you said goodbye.
+                </p>
+              </div>
+
               <Button
                 disabled={!canProceedToPage2}
                 onClick={handleNext}
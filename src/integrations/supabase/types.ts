@@ -14,6 +14,36 @@ export type Database = {
   }
   public: {
     Tables: {
+      learner_profiles: {
+        Row: {
+          created_at: string | null
+          earned_behaviors: string[]
+          progress: Json
+          session_count: number
+          skills: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          earned_behaviors?: string[]
+          progress?: Json
+          session_count?: number
+          skills?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          earned_behaviors?: string[]
+          progress?: Json
+          session_count?: number
+          skills?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       moderation_logs: {
         Row: {
           block_reason: string
@@ -49,11 +79,88 @@ export type Database = {
           },
         ]
       }
+      retention_purges: {
+        Row: {
+          branches_deleted: number
+          category: string
+          id: string
+          moderation_logs_deleted: number
+          purged_at: string
+          retention_days: number
+          session_code: string | null
+          session_id: string | null
+          turns_deleted: number
+        }
+        Insert: {
+          branches_deleted?: number
+          category: string
+          id?: string
+          moderation_logs_deleted?: number
+          purged_at?: string
+          retention_days: number
+          session_code?: string | null
+          session_id?: string | null
+          turns_deleted?: number
+        }
+        Update: {
+          branches_deleted?: number
+          category?: string
+          id?: string
+          moderation_logs_deleted?: number
+          purged_at?: string
+          retention_days?: number
+          session_code?: string | null
+          session_id?: string | null
+          turns_deleted?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_purges_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scenarios: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          pack: Json
+          published_at: string | null
+          slug: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          pack: Json
+          published_at?: string | null
+          slug: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          pack?: Json
+          published_at?: string | null
+          slug?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       session_metadata: {
         Row: {
           avg_user_message_length: number | null
           coaching_count: number | null
-          completion_status: string | null
+          completion_status: string
           controversial_count: number | null
           created_at: string | null
           crisis_count: number | null
@@ -65,7 +172,7 @@ export type Database = {
         Insert: {
           avg_user_message_length?: number | null
           coaching_count?: number | null
-          completion_status?: string | null
+          completion_status?: string
           controversial_count?: number | null
           created_at?: string | null
           crisis_count?: number | null
@@ -77,7 +184,7 @@ export type Database = {
         Update: {
           avg_user_message_length?: number | null
           coaching_count?: number | null
-          completion_status?: string | null
+          completion_status?: string
           controversial_count?: number | null
           created_at?: string | null
           crisis_count?: number | null
@@ -96,51 +203,205 @@ export type Database = {
           },
         ]
       }
+      session_turns: {
+        Row: {
+          branch: number
+          coach_tip_id: string | null
+          coach_tip_variant: number | null
+          coach_type: string | null
+          content: string
+          created_at: string | null
+          id: string
+          latency_ms: number | null
+          model: string | null
+          moderation_verdict: string | null
+          position: number
+          rewound_at: string | null
+          role: string
+          seq: number
+          session_id: string
+          turn_id: string
+        }
+        Insert: {
+          branch?: number
+          coach_tip_id?: string | null
+          coach_tip_variant?: number | null
+          coach_type?: string | null
+          content: string
+          created_at?: string | null
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          moderation_verdict?: string | null
+          position: number
+          rewound_at?: string | null
+          role: string
+          seq: number
+          session_id: string
+          turn_id: string
+        }
+        Update: {
+          branch?: number
+          coach_tip_id?: string | null
+          coach_tip_variant?: number | null
+          coach_type?: string | null
+          content?: string
+          created_at?: string | null
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          moderation_verdict?: string | null
+          position?: number
+          rewound_at?: string | null
+          role?: string
+          seq?: number
+          session_id?: string
+          turn_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_turns_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
+          auto_difficulty: boolean
+          branches: Json
           crisis_detected: boolean | null
           crisis_user_selection: string | null
+          difficulty: string
           ended_at: string | null
+          exit_practice: boolean
           id: string
           interlocutor: string
+          learner_id: string | null
           metadata: Json | null
+          owner_id: string | null
+          paused_at: string | null
+          persona: string
+          purged_at: string | null
           scene: string
           session_id: string
           session_token: string | null
+          skill_tally: Json | null
           started_at: string | null
           total_turns: number | null
           transcript: Json | null
         }
         Insert: {
+          auto_difficulty?: boolean
+          branches?: Json
           crisis_detected?: boolean | null
           crisis_user_selection?: string | null
+          difficulty?: string
           ended_at?: string | null
+          exit_practice?: boolean
           id?: string
           interlocutor: string
+          learner_id?: string | null
           metadata?: Json | null
+          owner_id?: string | null
+          paused_at?: string | null
+          persona?: string
+          purged_at?: string | null
           scene: string
           session_id: string
           session_token?: string | null
+          skill_tally?: Json | null
           started_at?: string | null
           total_turns?: number | null
           transcript?: Json | null
         }
         Update: {
+          auto_difficulty?: boolean
+          branches?: Json
           crisis_detected?: boolean | null
           crisis_user_selection?: string | null
+          difficulty?: string
           ended_at?: string | null
+          exit_practice?: boolean
           id?: string
           interlocutor?: string
+          learner_id?: string | null
           metadata?: Json | null
+          owner_id?: string | null
+          paused_at?: string | null
+          persona?: string
+          purged_at?: string | null
           scene?: string
           session_id?: string
           session_token?: string | null
+          skill_tally?: Json | null
           started_at?: string | null
           total_turns?: number | null
           transcript?: Json | null
         }
         Relationships: []
       }
+      turn_events: {
+        Row: {
+          branch: number
+          coach_tip_id: string | null
+          coach_tip_variant: number | null
+          created_at: string | null
+          crisis_verdict: string | null
+          distress_tier: number | null
+          event_kind: string
+          id: string
+          matched_keywords: string[]
+          moderation_verdict: string | null
+          session_id: string
+          trigger_kinds: string[]
+          turn_index: number
+          user_word_count: number
+        }
+        Insert: {
+          branch?: number
+          coach_tip_id?: string | null
+          coach_tip_variant?: number | null
+          created_at?: string | null
+          crisis_verdict?: string | null
+          distress_tier?: number | null
+          event_kind: string
+          id?: string
+          matched_keywords?: string[]
+          moderation_verdict?: string | null
+          session_id: string
+          trigger_kinds?: string[]
+          turn_index: number
+          user_word_count?: number
+        }
+        Update: {
+          branch?: number
+          coach_tip_id?: string | null
+          coach_tip_variant?: number | null
+          created_at?: string | null
+          crisis_verdict?: string | null
+          distress_tier?: number | null
+          event_kind?: string
+          id?: string
+          matched_keywords?: string[]
+          moderation_verdict?: string | null
+          session_id?: string
+          trigger_kinds?: string[]
+          turn_index?: number
+          user_word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "turn_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -175,6 +436,44 @@ export type Database = {
         Returns: boolean
       }
       no_admin_exists: { Args: never; Returns: boolean }
+      purge_moderation_logs: {
+        Args: { _blocked_before: string; _retention_days: number }
+        Returns: number
+      }
+      purge_session_content: {
+        Args: {
+          _category: string
+          _retention_days: number
+          _session_id: string
+          _skill_tally?: Json
+        }
+        Returns: boolean
+      }
+      refresh_session_metadata_counts: {
+        Args: { _session_id: string }
+        Returns: undefined
+      }
+      refresh_session_transcript: {
+        Args: { _session_id: string }
+        Returns: undefined
+      }
+      rewind_session: {
+        Args: { _session_id: string; _turn_index: number }
+        Returns: Json
+      }
+      save_turn: {
+        Args: {
+          _branch: number
+          _exit_grade?: Json
+          _position: number
+          _session_id: string
+          _snapshot?: Json
+          _turn_id: string
+          _turn_state?: Json
+          _turns: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
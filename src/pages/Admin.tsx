@@ -7,6 +7,13 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { ScenarioManager } from "@/components/ScenarioManager";
+import { SessionReportView } from "@/components/SessionReportView";
+import { getTip, isTipId, renderTip } from "./tipCatalog";
+import { getPersona } from "./personas";
+import { buildSessionReport } from "./sessionReport";
+import { COMPLETION_STATUSES, COMPLETION_STATUS_LABELS, isCompletionStatus } from "./sessionStatus";
+import { pathEvents } from "./transcriptPath";
 import { Shield, Search, Download, AlertTriangle, CheckCircle, XCircle, LogOut, UserPlus, Trash2, TrendingUp, Users, Clock, MessageSquare, BarChart3 } from "lucide-react";
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 
@@ -14,12 +21,33 @@ interface Session {
   id: string;
   session_id: string;
   scene: string;
+  persona: string;
   interlocutor: string;
+  difficulty: string;
+  auto_difficulty: boolean;
+  exit_practice: boolean;
   started_at: string;
   ended_at: string | null;
   total_turns: number;
   transcript: any;
   metadata: any;
+  branches: unknown;
+  // Transcript content removed by the retention-purge function
+  purged_at: string | null;
+}
+
+interface TranscriptTurn {
+  role: string;
+  content: string;
+  coachTip?: unknown;
+}
+
+// A path the learner rewound away from (rewind-turn function)
+interface TranscriptBranch {
+  // Transcript index of the retried message
+  at: number;
+  rewoundAt: string;
+  turns: TranscriptTurn[];
 }
 
 interface SessionMetadata {
@@ -31,6 +59,18 @@ interface SessionMetadata {
   completion_status: string;
 }
 
+interface TurnEvent {
+  branch: number;
+  turn_index: number;
+  event_kind: string;
+  matched_keywords: string[];
+  distress_tier: number | null;
+  crisis_verdict: string | null;
+  moderation_verdict: string | null;
+  coach_tip_id: string | null;
+  coach_tip_variant: number | null;
+}
+
 interface ModerationLog {
   id: string;
   session_id: string;
@@ -57,6 +97,8 @@ export default function Admin() {
   const [sessionMetadata, setSessionMetadata] = useState<Record<string, SessionMetadata>>({});
   const [moderationLogs, setModerationLogs] = useState<ModerationLog[]>([]);
   const [selectedSession, setSelectedSession] = useState<Session | null>(null);
+  // By branch, then transcript index
+  const [turnEvents, setTurnEvents] = useState<TurnEvent[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
@@ -78,6 +120,14 @@ export default function Admin() {
     }
   }, [isAdmin]);
 
+  // Load structured turn events for the open session
+  useEffect(() => {
+    setTurnEvents([]);
+    if (selectedSession) {
+      loadTurnEvents(selectedSession.id);
+    }
+  }, [selectedSession]);
+
   // Filter sessions based on search and status
   useEffect(() => {
     let filtered = sessions;
@@ -103,8 +153,8 @@ export default function Admin() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       
-      if (!user) {
-        // No user logged in - redirect to admin login
+      if (!user || user.is_anonymous) {
+        // No user logged in (anonymous learners don't count) - redirect to admin login
         window.location.href = '/admin-login';
         return;
       }
@@ -208,6 +258,20 @@ export default function Admin() {
     }
   }
 
+  async function loadTurnEvents(sessionDbId: string) {
+    const { data, error } = await supabase
+      .from("turn_events")
+      .select("branch, turn_index, event_kind, matched_keywords, distress_tier, crisis_verdict, moderation_verdict, coach_tip_id, coach_tip_variant")
+      .eq("session_id", sessionDbId);
+
+    if (error) {
+      console.error("Error loading turn events:", error);
+      return;
+    }
+
+    setTurnEvents(data || []);
+  }
+
   async function loadModerationLogs() {
     const { data, error } = await supabase
       .from("moderation_logs")
@@ -309,7 +373,7 @@ export default function Admin() {
 
   function exportToCSV() {
     const csvRows = [
-      ["Session ID", "Scene", "Interlocutor", "Started At", "Ended At", "Total Turns", "Crisis Count", "PII Count", "Controversial Count", "Coaching Count", "Avg Message Length", "Status"]
+      ["Session ID", "Scene", "Persona", "Interlocutor", "Difficulty", "Exit Practice", "Started At", "Ended At", "Total Turns", "Crisis Count", "PII Count", "Controversial Count", "Coaching Count", "Avg Message Length", "Status"]
     ];
 
     sessions.forEach(s => {
@@ -317,7 +381,10 @@ export default function Admin() {
       csvRows.push([
         s.session_id,
         s.scene,
+        s.persona,
         s.interlocutor,
+        s.auto_difficulty ? `${s.difficulty} (auto)` : s.difficulty,
+        s.exit_practice ? (s.metadata?.exitGrade ? `${s.metadata.exitGrade.score}/3` : "not graded") : "",
         new Date(s.started_at).toLocaleString(),
         s.ended_at ? new Date(s.ended_at).toLocaleString() : "In Progress",
         s.total_turns.toString(),
@@ -474,7 +541,7 @@ export default function Admin() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Avg Duration</p>
                   <p className="text-3xl font-bold mt-2">
-                    {sessions.length > 0 
+                    {sessions.some(s => s.ended_at)
                       ? Math.round(
                           sessions
                             .filter(s => s.ended_at)
@@ -604,10 +671,11 @@ export default function Admin() {
         )}
 
         <Tabs defaultValue="sessions" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="sessions">Sessions ({sessions.length})</TabsTrigger>
             <TabsTrigger value="moderation">Moderation Logs ({moderationLogs.length})</TabsTrigger>
             <TabsTrigger value="users">User Management ({adminUsers.length})</TabsTrigger>
+            <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
           </TabsList>
 
           <TabsContent value="sessions" className="space-y-6">
@@ -638,8 +706,9 @@ export default function Admin() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Statuses</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
+                        {COMPLETION_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{COMPLETION_STATUS_LABELS[status]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -692,7 +761,7 @@ export default function Admin() {
                           <div>
                             <CardTitle className="text-lg font-mono">{session.session_id}</CardTitle>
                             <CardDescription>
-                              {session.scene} • {session.interlocutor} • {new Date(session.started_at).toLocaleString()}
+                              {session.scene} • {getPersona(session.persona).name} ({session.interlocutor}) • {session.difficulty}{session.auto_difficulty && " (auto)"}{session.exit_practice && ` • exit practice${session.metadata?.exitGrade ? ` ${session.metadata.exitGrade.score}/3` : ""}`} • {new Date(session.started_at).toLocaleString()}
                             </CardDescription>
                           </div>
                           <div className="flex gap-2">
@@ -707,14 +776,23 @@ export default function Admin() {
                                 {meta.pii_count} PII
                               </Badge>
                             )}
+                            {meta?.controversial_count > 0 && (
+                              <Badge variant="secondary" className="gap-1">
+                                {meta.controversial_count} Controversial
+                              </Badge>
+                            )}
                             {meta?.completion_status === "completed" ? (
                               <Badge variant="default" className="gap-1">
                                 <CheckCircle className="w-3 h-3" />
                                 Completed
                               </Badge>
+                            ) : meta?.completion_status === "crisis_ended" ? (
+                              <Badge variant="destructive" className="gap-1">
+                                Crisis Ended
+                              </Badge>
                             ) : (
                               <Badge variant="outline" className="gap-1">
-                                In Progress
+                                {isCompletionStatus(meta?.completion_status) ? COMPLETION_STATUS_LABELS[meta.completion_status] : "In Progress"}
                               </Badge>
                             )}
                           </div>
@@ -766,27 +844,52 @@ export default function Admin() {
                       </Button>
                     </div>
                   </CardHeader>
-                  <CardContent className="space-y-4">
-                    {selectedSession.transcript && Array.isArray(selectedSession.transcript) && selectedSession.transcript.length > 0 ? (
-                      selectedSession.transcript.map((turn: any, i: number) => (
-                        <div key={i} className="space-y-2">
-                          <div className={`p-4 rounded-lg ${turn.role === "user" ? "bg-primary/10" : "bg-muted/50"}`}>
-                            <p className="text-xs font-semibold text-muted-foreground mb-1">
-                              {turn.role === "user" ? "USER" : "JORDAN"}
+                  <CardContent>
+                    <Tabs defaultValue="transcript">
+                      <TabsList>
+                        <TabsTrigger value="transcript">Transcript</TabsTrigger>
+                        <TabsTrigger value="report">Report</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="transcript" className="space-y-4">
+                        {selectedSession.transcript && Array.isArray(selectedSession.transcript) && selectedSession.transcript.length > 0 ? (
+                          <TranscriptTurns
+                            turns={selectedSession.transcript}
+                            name={getPersona(selectedSession.persona).name}
+                            events={pathEvents(turnEvents, sessionBranches(selectedSession))}
+                          />
+                        ) : selectedSession.purged_at ? (
+                          <p className="text-center text-muted-foreground">
+                            Transcript purged under the retention policy on {new Date(selectedSession.purged_at).toLocaleDateString()}
+                          </p>
+                        ) : (
+                          <p className="text-center text-muted-foreground">No transcript available</p>
+                        )}
+                        {/* Paths the learner rewound away from, oldest first */}
+                        {sessionBranches(selectedSession).map((branch, b) => (
+                          <div key={b} className="pt-4 border-t border-border space-y-4">
+                            <p className="text-sm font-semibold text-muted-foreground">
+                              Rewound path {b + 1} · from message {branch.at + 1} · rewound {new Date(branch.rewoundAt).toLocaleString()}
                             </p>
-                            <p className="leading-relaxed">{turn.content}</p>
-                          </div>
-                          {turn.coachTip && (
-                            <div className="ml-4 p-3 rounded-lg bg-accent/20 border border-accent/30">
-                              <p className="text-xs font-semibold text-muted-foreground mb-1">💡 COACH</p>
-                              <p className="text-sm">{turn.coachTip}</p>
+                            <div className="opacity-70">
+                              <TranscriptTurns
+                                turns={branch.turns}
+                                name={getPersona(selectedSession.persona).name}
+                                events={pathEvents(turnEvents, sessionBranches(selectedSession), b)}
+                                offset={branch.at}
+                              />
                             </div>
-                          )}
-                        </div>
-                      ))
-                    ) : (
-                      <p className="text-center text-muted-foreground">No transcript available</p>
-                    )}
+                          </div>
+                        ))}
+                      </TabsContent>
+                      <TabsContent value="report">
+                        {/* Same report the learner saw, rebuilt from the stored transcript */}
+                        <SessionReportView
+                          report={buildSessionReport(selectedSession.transcript)}
+                          name={getPersona(selectedSession.persona).name}
+                          showTranscript
+                        />
+                      </TabsContent>
+                    </Tabs>
                   </CardContent>
                 </Card>
               </div>
@@ -896,8 +999,83 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="scenarios" className="space-y-6">
+            <ScenarioManager />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
   );
 }
+
+// Sessions saved before rewinding existed have no branches
+function sessionBranches(session: Session): TranscriptBranch[] {
+  return Array.isArray(session.branches) ? session.branches : [];
+}
+
+// Transcript turns with their coaching and turn events; offset is the
+// transcript index of the first turn
+function TranscriptTurns({ turns, name, events = {}, offset = 0 }: {
+  turns: TranscriptTurn[];
+  name: string;
+  events?: Record<number, TurnEvent>;
+  offset?: number;
+}) {
+  return (
+    <div className="space-y-4">
+      {turns.map((turn, i) => (
+        <div key={i} className="space-y-2">
+          <div className={`p-4 rounded-lg ${turn.role === "user" ? "bg-primary/10" : "bg-muted/50"}`}>
+            <p className="text-xs font-semibold text-muted-foreground mb-1">
+              {turn.role === "user" ? "USER" : turn.role === "coach" ? "COACH" : name.toUpperCase()}
+            </p>
+            <p className="leading-relaxed">{turn.content}</p>
+            {events[offset + i] && <TurnEventBadges event={events[offset + i]} />}
+          </div>
+          {turn.role === "user" && turn.coachTip && (
+            <div className="ml-4 p-3 rounded-lg bg-accent/20 border border-accent/30">
+              <p className="text-xs font-semibold text-muted-foreground mb-1">💡 COACH</p>
+              <p className="text-sm">{transcriptTipText(turn.coachTip, name)}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// What the safety and coaching layers decided on one learner message
+function TurnEventBadges({ event }: { event: TurnEvent }) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {event.event_kind !== "NONE" && (
+        <Badge variant={event.event_kind === "CRISIS" ? "destructive" : "secondary"}>{event.event_kind}</Badge>
+      )}
+      {event.distress_tier && <Badge variant="outline">Distress tier {event.distress_tier}</Badge>}
+      {event.crisis_verdict && (
+        <Badge variant={event.crisis_verdict === "crisis" || event.crisis_verdict === "error" ? "destructive" : "outline"}>
+          Crisis analysis: {event.crisis_verdict}
+        </Badge>
+      )}
+      {event.moderation_verdict === "blocked" && <Badge variant="destructive">Reply blocked</Badge>}
+      {event.coach_tip_id && (
+        <Badge variant="outline">
+          Tip: {event.coach_tip_id}
+          {isTipId(event.coach_tip_id) && ` (${getTip(event.coach_tip_id).category})`}
+          {event.coach_tip_variant !== null && ` · variant ${event.coach_tip_variant}`}
+        </Badge>
+      )}
+      {event.matched_keywords.length > 0 && (
+        <span className="text-xs text-muted-foreground self-center">{event.matched_keywords.join(", ")}</span>
+      )}
+    </div>
+  );
+}
+
+// Transcripts store catalog tips ({ id, variant }); older sessions stored the text
+function transcriptTipText(tip: unknown, name: string): string {
+  if (typeof tip === "string") return tip;
+  const ref = tip as { id?: unknown; variant?: unknown };
+  return isTipId(ref?.id) ? renderTip({ id: ref.id, variant: Number(ref.variant) || 0 }, { vars: { name } }) : "";
+}
@@ -21,7 +21,8 @@ export default function AdminLogin() {
 
   async function checkAuth() {
     const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
+    // Learners tracking progress are signed in anonymously; they still need to log in here
+    if (user && !user.is_anonymous) {
       window.location.href = "/admin";
     }
   }
@@ -1,20 +1,30 @@
 import React, { useMemo, useState, useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
 import { DEFAULTS, type Scene } from "./constants";
-import { detectTriggers, prioritize, shouldTerminateSession, moderateJordanResponse, analyzeDistress, countTier2SignalsInHistory } from "./guardrails";
-import { lovableChat, openaiChat, mockChat, type ChatMessage } from "./llmAdapters";
-import { buildSystemPrompt, makeMessages, chatOpts } from "./JordanEngine";
-import { generateCoachTip, detectJordanBehavior, type CelebratedBehaviors, type CoachChatMessage } from "./coachingEngine";
+import { getScenario, learnerSceneContext, pickOpeningLine, type ScenarioPack } from "./scenarios";
+import { requestRewind, requestSuggestions, requestTurn } from "./turnClient";
+import { suggestionsAllowed, type ReplySuggestions } from "./replySuggestions";
+import { currentLearner, ensureIdentity } from "./learnerStore";
+import { getTip, isTipId, pickTip, renderTip, type TipRef } from "./tipCatalog";
+import { loadPublishedScenarios } from "./scenarioStore";
+import { buildSessionReport } from "./sessionReport";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, getDifficulty, type Difficulty } from "./difficulty";
+import { DEFAULT_PERSONA_ID, getPersona, type Persona } from "./personas";
+import { PHASE_LABELS, type Phase } from "./conversationPhase";
+import { shouldStallNudge } from "./coachingEngine";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, RotateCcw, X } from "lucide-react";
+import { Send, RotateCcw, X, TrendingUp } from "lucide-react";
 import { MessageBubble } from "@/components/MessageBubble";
 import { TypingIndicator } from "@/components/TypingIndicator";
 import { CoachTip } from "@/components/CoachTip";
 import { CoachMessage } from "@/components/CoachMessage";
+import { ReplySuggestionsCard } from "@/components/ReplySuggestionsCard";
 import { SessionSummary } from "@/components/SessionSummary";
 import { SetupDialog } from "@/components/SetupDialog";
+import { ResumeDialog } from "@/components/ResumeDialog";
 import { CrisisModal } from "@/components/CrisisModal";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -23,41 +33,41 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 interface Turn { 
   role: "user" | "assistant" | "coach"; 
   content: string; 
-  coachTip?: string;
+  // Tip shown with a user message; for coach messages, the tip they render
+  coachTip?: TipRef;
   coachType?: "celebration" | "insight";
   isSceneContext?: boolean;
+  streaming?: boolean;
 }
-interface Setup { scene: Scene; interlocutor: "he"|"she"|"they"; ageConfirmed: boolean }
-
-type Adapter = "lovable"|"openai"|"mock";
+interface Setup { scene: Scene; persona: string; interlocutor: "he"|"she"|"they"; difficulty: Difficulty; autoDifficulty: boolean; exitPractice: boolean; ageConfirmed: boolean }
 
 // --- Component ---
 export default function App() {
   const { toast } = useToast();
   
   // Setup state
-  const [setup, setSetup] = useState<Setup>({ scene: DEFAULTS.scene, interlocutor: "they", ageConfirmed: false });
+  const [setup, setSetup] = useState<Setup>({
+    scene: DEFAULTS.scene, persona: DEFAULT_PERSONA_ID, interlocutor: "they", difficulty: DEFAULT_DIFFICULTY, autoDifficulty: false, exitPractice: false, ageConfirmed: false
+  });
   const [showSetup, setShowSetup] = useState(true);
-  const adapter: Adapter = "lovable"; // Fixed to Lovable
+  const persona = getPersona(setup.persona);
+  // Open session left by a reload or closed tab, offered before setup
+  const [resumable, setResumable] = useState<ResumableSession | null>(null);
+  const [checkingResume, setCheckingResume] = useState(() => !!localStorage.getItem("jordan-session-token"));
+  const [resuming, setResuming] = useState(false);
 
   // Conversation state
   const [history, setHistory] = useState<Turn[]>([]);
   const [input, setInput] = useState("");
-  const [cooldown, setCooldown] = useState(false);
   const [ended, setEnded] = useState(false);
+  const [phase, setPhase] = useState<Phase>("opening");
   const [busy, setBusy] = useState(false);
   const [pauseWarning, setPauseWarning] = useState(false);
   const [lastResponseTime, setLastResponseTime] = useState<number | null>(null);
   const [showCrisisModal, setShowCrisisModal] = useState(false);
-  const [celebratedBehaviors, setCelebratedBehaviors] = useState<CelebratedBehaviors>({
-    askedFirstQuestion: false,
-    sharedPersonally: false,
-    activeListening: false,
-    gracefulClose: false,
-    followedSuggestion: false,
-    foundCommonGround: false,
-    usedContextClues: false,
-  });
+  // "How could I say that better?" results, by history index
+  const [suggestions, setSuggestions] = useState<Record<number, ReplySuggestions>>({});
+  const [suggesting, setSuggesting] = useState<number | null>(null);
 
   // Session logging state
   const [sessionId, setSessionId] = useState<string>("");
@@ -67,6 +77,7 @@ export default function App() {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const accessTokenRef = useRef<string | null>(null);
 
   // Auto-scroll to bottom when history updates
   useEffect(() => {
@@ -80,11 +91,13 @@ export default function App() {
     }
   }, [history.length, ended, busy]);
 
-  // Track pause time - show nudge after 2 minutes
+  // Track pause time - show nudge after 2 minutes, unless the learner's
+  // recent messages show distress
   useEffect(() => {
     if (!busy && history.length > 0 && history[history.length - 1]?.role === "assistant" && !ended) {
       setLastResponseTime(Date.now());
       setPauseWarning(false);
+      if (!shouldStallNudge(history, true)) return;
       
       const timer = setTimeout(() => {
         setPauseWarning(true);
@@ -94,48 +107,66 @@ export default function App() {
     }
   }, [history, busy, ended]);
 
-  // Update session in database when history changes
+  // Latest access token, for the unload beacon (which can't wait for a refresh)
   useEffect(() => {
-    if (sessionDbId && history.length > 0) {
-      updateSession();
-    }
-  }, [history, sessionDbId]);
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      accessTokenRef.current = session?.access_token ?? null;
+    });
+    return () => subscription.unsubscribe();
+  }, []);
 
-  // Cleanup on page close/navigate - mark session as abandoned
+  // Look for a session to resume. Reloading only pauses it (see below), so
+  // one that's still open can pick up where it left off
+  useEffect(() => {
+    const token = localStorage.getItem("jordan-session-token");
+    if (!token) return;
+    findResumableSession(token).then(found => {
+      if (!found) localStorage.removeItem("jordan-session-token");
+      setResumable(found);
+      setCheckingResume(false);
+    });
+  }, []);
+
+  // Cleanup on page close/navigate - pause the session until the learner
+  // resumes it or session-sweep ends it as abandoned. Beacons can't carry
+  // headers, so the access token proving ownership goes in the body.
   useEffect(() => {
     const handleBeforeUnload = () => {
-      if (sessionDbId && sessionToken && history.length > 0 && !ended) {
+      if (sessionDbId && accessTokenRef.current && history.length > 0 && !ended) {
         navigator.sendBeacon(
           `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/session-cleanup`,
-          JSON.stringify({ sessionDbId, sessionToken })
+          JSON.stringify({ sessionDbId, accessToken: accessTokenRef.current })
         );
       }
     };
     
     window.addEventListener("beforeunload", handleBeforeUnload);
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, [sessionDbId, sessionToken, history.length, ended]);
+  }, [sessionDbId, history.length, ended]);
+
+  const report = useMemo(() => buildSessionReport(history), [history]);
 
-  const summary = useMemo(() => makeSummary(history), [history]);
+  // Learner messages that can get "How could I say that better?"; the
+  // suggest-reply function re-checks with the turn's crisis verdict
+  const suggestable = useMemo(() => {
+    const turns = history.map(t => ({ role: t.role, content: t.content, coachTipId: t.role === "user" ? t.coachTip?.id : undefined }));
+    return new Set(turns.flatMap((_, i) => (suggestionsAllowed(turns, i) ? [i] : [])));
+  }, [history]);
+  const canSuggest = (index: number) => !busy && !!sessionDbId && !suggestions[index] && suggestable.has(index);
 
   async function reset() { 
-    // Mark current session as completed/abandoned before resetting
-    if (sessionDbId && sessionToken && history.length > 0 && !ended) {
-      await supabase.from("session_metadata").update({
-        completion_status: "completed",
-        session_token: sessionToken,
-      }).eq("session_id", sessionDbId).eq("session_token", sessionToken);
-      
+    // Mark current session as completed before resetting (the database
+    // derives completion_status from ended_at)
+    if (sessionDbId && history.length > 0 && !ended) {
       await supabase.from("sessions").update({
         ended_at: new Date().toISOString(),
-        session_token: sessionToken,
-      }).eq("id", sessionDbId).eq("session_token", sessionToken);
+      }).eq("id", sessionDbId);
     }
     
     setHistory([]); 
     setInput(""); 
     setEnded(false); 
-    setCooldown(false); 
+    setPhase("opening");
     setPauseWarning(false);
     setLastResponseTime(null);
     setSessionId("");
@@ -144,15 +175,8 @@ export default function App() {
     setSessionToken("");
     setShowSetup(true);
     setShowCrisisModal(false);
-    setCelebratedBehaviors({
-      askedFirstQuestion: false,
-      sharedPersonally: false,
-      activeListening: false,
-      gracefulClose: false,
-      followedSuggestion: false,
-      foundCommonGround: false,
-      usedContextClues: false,
-    });
+    setSuggestions({});
+    setSuggesting(null);
     localStorage.removeItem("jordan-conversation");
     localStorage.removeItem("jordan-session-token");
   }
@@ -167,8 +191,8 @@ export default function App() {
     return result;
   }
 
-  // Create new session in database
-  async function createSession() {
+  // Create new session in database, seeded with the opening turns
+  async function createSession(setupData: Setup, initialHistory: Turn[]) {
     const newSessionId = generateSessionId();
     const newSessionToken = crypto.randomUUID(); // Generate secure token
     
@@ -176,14 +200,32 @@ export default function App() {
     setSessionToken(newSessionToken);
     localStorage.setItem("jordan-session-token", newSessionToken);
 
+    // The session row belongs to the signed-in user (anonymous unless they
+    // used an email); only learners who track progress also link it as theirs
+    let owner: Awaited<ReturnType<typeof ensureIdentity>>;
+    try {
+      owner = await ensureIdentity();
+    } catch (err) {
+      console.error("Failed to sign in:", err);
+      return null;
+    }
+    const learner = await currentLearner();
+
     const { data, error } = await supabase
       .from("sessions")
       .insert({
         session_id: newSessionId,
         session_token: newSessionToken,
-        scene: setup.scene,
-        interlocutor: setup.interlocutor,
+        scene: setupData.scene,
+        persona: setupData.persona,
+        interlocutor: setupData.interlocutor,
+        difficulty: setupData.difficulty,
+        auto_difficulty: setupData.autoDifficulty,
+        exit_practice: setupData.exitPractice,
         started_at: new Date().toISOString(),
+        metadata: { userAgent: navigator.userAgent },
+        owner_id: owner.id,
+        learner_id: learner?.id ?? null,
       })
       .select()
       .single();
@@ -192,56 +234,30 @@ export default function App() {
       console.error("Failed to create session:", error);
       return null;
     }
-
-    // Create metadata record
-    await supabase.from("session_metadata").insert({
-      session_id: data.id,
-      session_token: newSessionToken,
-      completion_status: "in_progress",
-    });
+    // Its session_metadata row is created by the database
+
+    // Seed the transcript (derived from session_turns) with the opening turns
+    const openingTurnId = crypto.randomUUID();
+    const { error: turnsError } = await supabase.from("session_turns").insert(
+      initialHistory.map((h, i) => ({
+        session_id: data.id,
+        turn_id: openingTurnId,
+        seq: i,
+        position: i,
+        role: h.role,
+        content: h.content,
+        coach_type: h.coachType ?? null,
+      }))
+    );
+    if (turnsError) {
+      console.error("Failed to save opening turns:", turnsError);
+      return null;
+    }
 
     setSessionDbId(data.id);
     return data.id;
   }
 
-  // Update session transcript and metadata
-  async function updateSession() {
-    if (!sessionDbId || !sessionToken) return;
-
-    const transcript = history.map(h => ({
-      role: h.role,
-      content: h.content,
-      coachTip: h.coachTip || null,
-    }));
-
-    // Count triggers - match actual coach tip text patterns
-    const crisisCount = history.filter(h => h.coachTip?.toLowerCase().includes("heavy") || h.coachTip?.toLowerCase().includes("personal topic")).length;
-    const piiCount = history.filter(h => h.coachTip?.toLowerCase().includes("personal details") || h.coachTip?.toLowerCase().includes("where you live")).length;
-    const controversialCount = history.filter(h => h.coachTip?.toLowerCase().includes("politics") || h.coachTip?.toLowerCase().includes("religion")).length;
-    const coachingCount = history.filter(h => h.coachTip).length;
-
-    const userMessages = history.filter(h => h.role === "user");
-    const avgLength = userMessages.length > 0
-      ? Math.round(userMessages.reduce((sum, msg) => sum + msg.content.split(/\s+/).length, 0) / userMessages.length)
-      : 0;
-
-    await supabase.from("sessions").update({
-      transcript,
-      total_turns: history.length,
-      metadata: { userAgent: navigator.userAgent },
-      session_token: sessionToken,
-    }).eq("id", sessionDbId).eq("session_token", sessionToken);
-
-    await supabase.from("session_metadata").update({
-      crisis_count: crisisCount,
-      pii_count: piiCount,
-      controversial_count: controversialCount,
-      coaching_count: coachingCount,
-      avg_user_message_length: avgLength,
-      session_token: sessionToken,
-    }).eq("session_id", sessionDbId).eq("session_token", sessionToken);
-  }
-
   async function send() {
     if (!input.trim() || busy || ended) return;
     const userText = input.trim();
@@ -250,284 +266,254 @@ export default function App() {
     setPauseWarning(false);
     setLastResponseTime(null);
 
-    // 1) Detect triggers on user text
-    const triggers = detectTriggers(userText);
-    const main = prioritize(triggers);
-    
-    // Initialize coach feedback variables (may be set by crisis analysis or coaching engine)
-    let coachTip: string | undefined;
-    let coachChatMessage: CoachChatMessage | undefined;
-
-    // 2) Three-tiered distress analysis (Manus Research Implementation)
-    const tier2Count = countTier2SignalsInHistory(history);
-    const distressAnalysis = analyzeDistress(userText, tier2Count);
-
-    console.log("Distress analysis:", {
-      severity: distressAnalysis.severity,
-      tier2Count,
-      foundTier2: distressAnalysis.foundTier2,
-      matchedKeywords: distressAnalysis.matchedKeywords
-    });
-
-    // Trigger LLM analysis if:
-    // - Tier 1 hit (severity = 'high'), OR
-    // - Accumulated Tier 2 signals (severity = 'low'), OR
-    // - Legacy keyword match (shouldTerminateSession)
-    const shouldAnalyze = 
-      distressAnalysis.severity === "high" || 
-      distressAnalysis.severity === "low" ||
-      shouldTerminateSession(main.kind);
-
-    if (shouldAnalyze) {
-      // Build recent conversation context with Tier 2 signal metadata
-      const recentMessages = history.slice(-5).map(h => ({
-        role: h.role,
-        content: h.content
-      }));
-      recentMessages.push({ role: "user", content: userText });
-      
-      try {
-        // Call LLM to analyze crisis context with tiered metadata
-        const { data: analysis, error } = await supabase.functions.invoke("analyze-crisis-context", {
-          body: { 
-            recentMessages,
-            triggerKeyword: distressAnalysis.matchedKeywords.join(", ") || "distress signal",
-            distressMetadata: {
-              tier: distressAnalysis.severity === "high" ? 1 : 2,
-              accumulatedTier2Count: tier2Count + (distressAnalysis.foundTier2 ? 1 : 0),
-              matchedKeywords: distressAnalysis.matchedKeywords
-            }
-          }
-        });
-        
-        if (error) {
-          console.error("Crisis context analysis error:", error);
-          // Fail safe: default to crisis intervention
-          analysis.severity = "crisis";
-        }
-        
-        console.log("Crisis analysis result:", analysis);
-        
-        if (analysis.severity === "crisis") {
-          // Add user message to history before showing modal
-          setHistory(h => [...h, { role: "user", content: userText }]);
-          // Severe or persistent distress detected - show crisis modal immediately
-          // Do NOT add user message to history - modal takes over
-          setShowCrisisModal(true);
-          setEnded(true);
-          setBusy(false);
-          
-          // Update database to mark crisis detected
-          if (sessionDbId) {
-            await supabase
-              .from("sessions")
-              .update({ 
-                crisis_detected: true,
-                ended_at: new Date().toISOString(),
-                total_turns: history.length + 1,
-                transcript: JSON.parse(JSON.stringify([...history, { role: "user", content: userText }])),
-              })
-              .eq("id", sessionDbId)
-              .eq("session_token", sessionToken);
+    // The jordan-turn function runs the whole pipeline and saves the transcript;
+    // we only render its events
+    const before = history;
+    let result: Awaited<ReturnType<typeof requestTurn>>;
+    try {
+      result = await requestTurn({ sessionDbId, sessionToken }, crypto.randomUUID(), userText, {
+        onUserTurn: (coachTip, coachChatMessage) => {
+          // Add user message immediately (show it before Jordan responds)
+          setHistory(h => [...h, { role: "user", content: userText, coachTip }]);
+          // Add coach chat message if celebrating a positive behavior
+          if (coachChatMessage) {
+            setHistory(h => [...h, { role: "coach", content: showTip(coachChatMessage, persona), coachType: coachChatMessage.type, coachTip: coachChatMessage }]);
           }
-          
-          return; // Stop here - don't show user message, don't continue conversation
-        } else if (analysis.severity === "coaching") {
-          // First mention or academic discussion - add coaching tip but continue conversation
-          coachTip = "That's a heavy or personal topic for casual small talk. Try pivoting to something lighter like hobbies, the scene, or asking Jordan a question.";
-        }
-        // If "safe", continue normally (no intervention)
-        
-      } catch (err) {
-        console.error("Failed to analyze crisis context:", err);
-        // Fail safe: show crisis modal if analysis fails
-        setHistory(h => [...h, { role: "user", content: userText }]);
-        setShowCrisisModal(true);
-        setEnded(true);
-        setBusy(false);
-        return;
-      }
-    }
-
-    // 3) Generate coaching tip using refined coaching engine
-    // Note: coachTip may already be set by crisis analysis above
-    if (!coachTip) {
-      // Check if Jordan has ended the conversation (definitive goodbye)
-      const jordanEndedConversation = history.slice(-2).some(h => 
-        h.role === "assistant" && 
-        /\b(bye|goodbye|see you around|take care|catch you later|have a good one|nice talking to you|good chatting)\b/i.test(h.content) &&
-        !/\?/.test(h.content)
-      );
-      
-      // Filter out coach messages for coaching engine
-      const conversationHistory = history.filter(h => h.role !== "coach") as { role: "user" | "assistant"; content: string; coachTip?: string }[];
-      
-      const coachResult = generateCoachTip({
-        userText,
-        history: conversationHistory,
-        triggerKind: main.kind,
-        cooldown,
-        jordanEndedConversation,
-        celebratedBehaviors
+        },
+        // Optimistic scenes stream tokens into a pending bubble;
+        // buffered scenes only ever receive the moderated reply
+        onReplyDelta: partial => {
+          setHistory(h => {
+            const pending = { role: "assistant" as const, content: partial, streaming: true };
+            return h[h.length - 1]?.streaming ? [...h.slice(0, -1), pending] : [...h, pending];
+          });
+        },
       });
-      
-      coachTip = coachResult.tip;
-      coachChatMessage = coachResult.chatMessage;
-      
-      // Update celebrated behaviors if a positive behavior was recognized
-      if (coachResult.celebratedBehavior) {
-        setCelebratedBehaviors(prev => ({
-          ...prev,
-          [coachResult.celebratedBehavior!]: true
-        }));
-      }
+    } catch (err) {
+      console.error("Turn failed:", err);
+      toast({
+        title: "Connection issue",
+        description: "Your message couldn't be sent. Please try again.",
+        variant: "destructive",
+      });
+      setHistory(before);
+      setInput(userText);
+      setBusy(false);
+      return;
     }
 
-    // 4) Add user message immediately (show it before Jordan responds)
-    setHistory(h => [...h, { role: "user", content: userText, coachTip }]);
-    
-    // 4b) Add coach chat message if celebrating a positive behavior
-    if (coachChatMessage) {
-      setHistory(h => [...h, { role: "coach", content: coachChatMessage!.content, coachType: coachChatMessage!.type }]);
+    if (result.kind === "crisis") {
+      // Severe or persistent distress (or a failed analysis) - the crisis modal takes over
+      setHistory(h => [...h, { role: "user", content: userText }]);
+      setShowCrisisModal(true);
+      setEnded(true);
+      setBusy(false);
+      return;
     }
 
-    // 5) Build messages for LLM (pass exchange count for phase awareness)
-    // Filter out coach messages for LLM
-    const conversationOnly = history.filter(h => h.role !== "coach");
-    const exchangeCount = conversationOnly.length;
-    const sys = buildSystemPrompt(setup.scene, setup.interlocutor, exchangeCount);
-
-    const chatHistory = conversationOnly.map(t => ({
-      role: t.role as "user" | "assistant",
-      content: t.content,
-    }));
-
-    const turnReminder = `IMPORTANT: Reply only to the learner's latest message. Stay in-role as Jordan (do NOT write as the learner). Do NOT repeat your introduction or name, and do NOT respond to your own previous messages (including your opening line). Do NOT address the learner as “Jordan” or any other name unless they explicitly shared it. Start by acknowledging the learner's content.`;
-
-    const messages: ChatMessage[] = [
-      { role: "system", content: sys },
-      ...chatHistory,
-      { role: "system", content: turnReminder },
-      { role: "user", content: userText },
-    ];
+    if (result.generatorFailed) {
+      toast({
+        title: "Connection issue",
+        description: `${persona.name} is having trouble responding. Please try again.`,
+        variant: "destructive",
+      });
+    }
 
-    // 6) Call adapter
-    const callAdapter = async (msgs: ChatMessage[]) => {
-      if (adapter === "lovable") {
-        return await lovableChat(
-          msgs,
-          chatOpts({ useAdapter: "lovable", scene: setup.scene, interlocutor: setup.interlocutor } as any)
-        );
-      }
-      if (adapter === "openai") {
-        return await openaiChat(
-          msgs,
-          chatOpts({ useAdapter: "openai", scene: setup.scene, interlocutor: setup.interlocutor } as any)
-        );
+    // Add Jordan's response separately (user message already visible),
+    // replacing the pending streamed bubble in optimistic mode
+    setHistory(h => {
+      const settled = h[h.length - 1]?.streaming ? h.slice(0, -1) : h;
+      const newHistory: Turn[] = [...settled, { role: "assistant", content: result.reply }];
+      if (result.jordanInsight) {
+        newHistory.push({ role: "coach", content: showTip(result.jordanInsight, persona), coachType: result.jordanInsight.type, coachTip: result.jordanInsight });
       }
-      return await mockChat(msgs);
-    };
-
-    const needsSelfResponseRetry = (text: string) => {
-      const t = text.toLowerCase().trim();
-      return (
-        /\b(i['’]?m|im)\s+jordan\s+too\b/.test(t) ||
-        /\bjordan\s+for\s+me\s+too\b/.test(t) ||
-        /^(hey|hi|hello)\s+jordan\b/.test(t) ||
-        /\b(nice|great|good)\s+to\s+meet\s+you[,! ]+jordan\b/.test(t) ||
-        /\bit['’]?s\s+great\s+to\s+meet\s+you[,! ]+jordan\b/.test(t)
-      );
-    };
-
-    let reply = "";
-    try {
-      reply = await callAdapter(messages);
+      return newHistory;
+    });
+    setPhase(result.phase.phase);
 
-      // Targeted one-time retry if Jordan role-flips or incorrectly addresses the learner as “Jordan”.
-      if (needsSelfResponseRetry(reply)) {
-        const fixSystem = `CRITICAL FIX: You are Jordan. The learner did NOT provide their name. Never address the learner as “Jordan” or any name (avoid name greetings like “Hey Jordan” / “Nice to meet you, Jordan”). Do NOT respond to your own opening line. Respond ONLY to the learner message: "${userText}".`;
+    // Exit practice: the learner has left, show how their goodbye did
+    if (result.exitGrade) {
+      const { preClosing, appreciation, farewell, score } = result.exitGrade;
+      const mark = (done: boolean) => (done ? "✓" : "✗");
+      toast({
+        title: `Your exit: ${score}/3`,
+        description: `Signal ${mark(preClosing)} · Appreciation ${mark(appreciation)} · Goodbye ${mark(farewell)}`,
+      });
+    }
 
-        const retryMessages: ChatMessage[] = [
-          ...messages.slice(0, -1),
-          { role: "system", content: fixSystem },
-          messages[messages.length - 1],
-        ];
+    // Auto-adjust moved the level for the rest of the session
+    if (result.difficulty) {
+      const stepUp = DIFFICULTIES.indexOf(result.difficulty) > DIFFICULTIES.indexOf(setup.difficulty);
+      setSetup(s => ({ ...s, difficulty: result.difficulty! }));
+      toast({
+        title: `Difficulty: ${getDifficulty(result.difficulty).label}`,
+        description: stepUp
+          ? `You're doing great, so ${persona.name} will let you lead more.`
+          : `${persona.name} will help carry the conversation a bit more.`,
+      });
+    }
+    setBusy(false);
+  }
 
-        reply = await callAdapter(retryMessages);
+  // History indexes match the session transcript's, which suggest-reply reads
+  async function suggestBetter(index: number) {
+    if (!sessionDbId || suggesting !== null) return;
+    setSuggesting(index);
+    try {
+      const result = await requestSuggestions({ sessionDbId, sessionToken }, index);
+      if (result) {
+        setSuggestions(s => ({ ...s, [index]: result }));
+      } else {
+        toast({ title: "No suggestions for this message", description: "Suggestions aren't available for this one." });
       }
-    } catch (e:any) {
+    } catch (err) {
+      console.error("Suggestions failed:", err);
       toast({
         title: "Connection issue",
-        description: "Jordan is having trouble responding. Please try again.",
+        description: "Couldn't get suggestions. Please try again.",
         variant: "destructive",
       });
-      reply = "(Generator unavailable) Let's keep it simple—what's one thing you've been reading or watching lately?";
+    } finally {
+      setSuggesting(null);
     }
+  }
 
-    // 7) Moderate Jordan's response before showing to user
-    const conversationContext = history.slice(-5).map(h => `${h.role}: ${h.content}`).join("\n");
-    const moderation = await moderateJordanResponse(reply, conversationContext, sessionDbId);
-    
-    if (!moderation.safe) {
-      console.warn("Response blocked by moderation:", moderation.reason);
-      reply = moderation.finalResponse;
+  // Cut the conversation back to before the learner message at index and
+  // put it back in the input; the server rolls coaching state back to match
+  // and keeps the discarded path for admins
+  async function rewindTo(index: number) {
+    if (!sessionDbId || busy || ended) return;
+    const retry = history[index].content;
+    setBusy(true);
+    try {
+      const result = await requestRewind({ sessionDbId, sessionToken }, index);
+      setHistory(h => h.slice(0, index));
+      setSuggestions(s => Object.fromEntries(Object.entries(s).filter(([i]) => Number(i) < index)));
+      setPhase(result.phase);
+      setSetup(s => ({ ...s, difficulty: result.difficulty }));
+      setInput(retry);
+      setPauseWarning(false);
+      toast({ title: "Rewound", description: "Edit your message and send it to try a different reply." });
+    } catch (err) {
+      console.error("Rewind failed:", err);
+      toast({
+        title: "Couldn't rewind",
+        description: "This message can't be retried. Please try again or start a new conversation.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
     }
-
-    // 8) Add Jordan's response separately (user message already visible)
-    setHistory(h => {
-      const newHistory = [...h, { role: "assistant" as const, content: reply }];
-      
-      // 8b) Check if Jordan is exhibiting a behavior worth explaining
-      const conversationOnly = newHistory.filter(t => t.role !== "coach") as { role: "user" | "assistant"; content: string; coachTip?: string }[];
-      const jordanInsight = detectJordanBehavior(conversationOnly);
-      
-      if (jordanInsight) {
-        return [...newHistory, { role: "coach" as const, content: jordanInsight.content, coachType: jordanInsight.type }];
-      }
-      
-      return newHistory;
-    });
-    setBusy(false);
-    setCooldown(!!coachTip || !!coachChatMessage);
   }
 
   async function endSession() {
     setEnded(true);
     
     // Mark session as completed in database
-    if (sessionDbId && sessionToken) {
+    if (sessionDbId) {
       await supabase.from("sessions").update({
         ended_at: new Date().toISOString(),
-        session_token: sessionToken,
-      }).eq("id", sessionDbId).eq("session_token", sessionToken);
+      }).eq("id", sessionDbId);
+    }
+  }
 
-      await supabase.from("session_metadata").update({
-        completion_status: "completed",
-        session_token: sessionToken,
-      }).eq("session_id", sessionDbId).eq("session_token", sessionToken);
+  // Rebuild the conversation from the session's turns; the pipeline state
+  // (cooldown, celebrated behaviors, phase, difficulty) lives with the session
+  // on the server, so the next turn carries on from it
+  async function resumeSession(session: ResumableSession) {
+    setResuming(true);
+    const { data: turns, error } = await supabase
+      .from("session_turns")
+      .select("position, role, content, coach_tip_id, coach_tip_variant, coach_type")
+      .eq("session_id", session.id)
+      .is("rewound_at", null)
+      .order("position");
+
+    if (error || !turns?.length) {
+      console.error("Failed to load session turns:", error);
+      toast({
+        title: "Couldn't resume",
+        description: "Your last conversation couldn't be loaded. Start a new one instead.",
+        variant: "destructive",
+      });
+      setResuming(false);
+      await discardResumable(session);
+      return;
     }
+
+    // Published scenes have to be registered before the session's can be shown
+    await loadPublishedScenarios();
+    const resumedPersona = getPersona(session.persona);
+    const turnState = (session.metadata as ResumedMetadata | null)?.turnState;
+    setSetup({
+      scene: session.scene as Scene,
+      persona: session.persona,
+      interlocutor: session.interlocutor as Setup["interlocutor"],
+      difficulty: (turnState?.difficulty ?? session.difficulty) as Difficulty,
+      autoDifficulty: session.auto_difficulty,
+      exitPractice: session.exit_practice,
+      ageConfirmed: true,
+    });
+    setHistory(turns.map(t => {
+      const coachTip = t.coach_tip_id && isTipId(t.coach_tip_id) ? { id: t.coach_tip_id, variant: t.coach_tip_variant ?? 0 } : undefined;
+      return {
+        role: t.role as Turn["role"],
+        // Stored coach copy is English; show it in the browser's language
+        content: t.role === "coach" && coachTip ? showTip(coachTip, resumedPersona) : t.content,
+        coachTip,
+        coachType: (t.coach_type ?? undefined) as Turn["coachType"],
+        isSceneContext: t.role === "coach" && t.position === 0,
+      };
+    }));
+    setPhase(turnState?.phase?.phase ?? "opening");
+    setSessionId(session.session_id);
+    setSessionDbId(session.id);
+    setSessionToken(session.session_token ?? "");
+
+    // Clearing paused_at marks it resumed
+    await supabase.from("sessions").update({ paused_at: null }).eq("id", session.id);
+
+    setResumable(null);
+    setShowSetup(false);
+    setResuming(false);
+  }
+
+  // Starting over ends the paused session instead of leaving it for
+  // session-sweep; ending it while paused marks it abandoned
+  async function discardResumable(session: ResumableSession) {
+    setResumable(null);
+    localStorage.removeItem("jordan-session-token");
+
+    const now = new Date().toISOString();
+    await supabase.from("sessions").update({
+      ended_at: now,
+      paused_at: session.paused_at ?? now,
+    }).eq("id", session.id);
   }
 
   async function handleStartConversation(setupData: Setup) {
     setSetup(setupData);
     setShowSetup(false);
     
-    const dbId = await createSession();
     // Add scene context first, then Jordan's opening line
+    const pack = getScenario(setupData.scene);
+    const chosen = getPersona(setupData.persona);
     const initialHistory: Turn[] = [
-      { role: "coach", content: sceneContext(setupData.scene, setupData.interlocutor), coachType: "insight", isSceneContext: true },
-      { role: "assistant", content: openingLine(setupData.scene) }
+      { role: "coach", content: learnerSceneContext(pack, chosen, setupData.interlocutor), coachType: "insight", isSceneContext: true },
+      { role: "assistant", content: pickOpeningLine(pack, chosen) }
     ];
     
+    const dbId = await createSession(setupData, initialHistory);
     if (dbId) {
       setHistory(initialHistory);
     } else {
+      // Turns run server-side against the session, so there's no conversation without one
       toast({
         title: "Session creation failed",
-        description: "Could not create session. Continuing without logging.",
+        description: "Could not start a session. Please try again.",
         variant: "destructive",
       });
-      setHistory(initialHistory);
+      setShowSetup(true);
     }
   }
 
@@ -563,8 +549,7 @@ export default function App() {
         .update({ 
           crisis_user_selection: choice,
         })
-        .eq("id", sessionDbId)
-        .eq("session_token", sessionToken);
+        .eq("id", sessionDbId);
     }
 
     // Handle different selections
@@ -586,7 +571,18 @@ export default function App() {
 
   return (
     <>
-      <SetupDialog open={showSetup} onStartConversation={handleStartConversation} />
+      <SetupDialog open={showSetup && !checkingResume && !resumable} onStartConversation={handleStartConversation} />
+      {resumable && (
+        <ResumeDialog
+          open
+          name={getPersona(resumable.persona).name}
+          sceneTitle={getScenario(resumable.scene).title}
+          exchanges={Math.floor((resumable.total_turns ?? 0) / 2)}
+          loading={resuming}
+          onContinue={() => resumeSession(resumable)}
+          onStartOver={() => discardResumable(resumable)}
+        />
+      )}
       
       {/* Crisis Modal - System-level intervention */}
       {showCrisisModal && <CrisisModal onSelection={handleCrisisSelection} />}
@@ -597,20 +593,25 @@ export default function App() {
         {/* Minimal Header */}
         <header className="border-b border-border/50 bg-background/80 backdrop-blur-md px-6 py-4 flex items-center justify-between shrink-0">
           <div className="flex items-center gap-4">
-            <Avatar className="h-11 w-11 border-2 border-primary/10 bg-gradient-to-br from-primary/20 to-accent/20">
-              <AvatarFallback className="bg-transparent text-primary font-bold text-xl">
-                J
+            <Avatar className={`h-11 w-11 border-2 border-primary/10 bg-gradient-to-br ${persona.avatarClassName}`}>
+              <AvatarFallback className="bg-transparent font-bold text-xl">
+                {persona.name[0]}
               </AvatarFallback>
             </Avatar>
             <div>
-              <h2 className="font-semibold text-lg text-foreground">Jordan</h2>
+              <h2 className="font-semibold text-lg text-foreground">{persona.name}</h2>
               <p className="text-xs text-muted-foreground">
-                {setup.scene} • {Math.floor(history.length / 2)} exchanges
+                {getScenario(setup.scene).title} • {getDifficulty(setup.difficulty).label}{setup.exitPractice && " • Exit practice"} • {PHASE_LABELS[phase]} • {Math.floor(history.length / 2)} exchanges
               </p>
             </div>
           </div>
           
           <div className="flex items-center gap-2">
+            <Link to="/progress">
+              <Button variant="ghost" size="icon" className="hover:bg-muted" title="Your progress">
+                <TrendingUp className="w-4 h-4" />
+              </Button>
+            </Link>
             {!ended && history.length > 0 && (
               <Button variant="ghost" size="sm" onClick={endSession} className="hover:bg-muted">
                 End
@@ -646,17 +647,26 @@ export default function App() {
                     role={t.role as "user" | "assistant"} 
                     content={t.content}
                     isGrouped={isGrouped}
+                    isStreaming={t.streaming}
+                    onSuggest={canSuggest(i) ? () => suggestBetter(i) : undefined}
+                    onRewind={t.role === "user" && !busy && !ended && sessionDbId ? () => rewindTo(i) : undefined}
+                    suggestLoading={suggesting === i}
                   />
                   {t.coachTip && (
                     <div className="mt-3 mb-5">
-                      <CoachTip content={t.coachTip} isCrisis={t.coachTip.includes("988")} />
+                      <CoachTip content={showTip(t.coachTip, persona)} isCrisis={getTip(t.coachTip.id).category === "safety"} />
+                    </div>
+                  )}
+                  {suggestions[i] && (
+                    <div className="mt-3 mb-5">
+                      <ReplySuggestionsCard suggestions={suggestions[i]} />
                     </div>
                   )}
                 </div>
               );
             })}
             
-            {busy && (
+            {busy && !history[history.length - 1]?.streaming && (
               <div className="mt-4">
                 <TypingIndicator />
               </div>
@@ -664,20 +674,15 @@ export default function App() {
             
             {pauseWarning && !busy && !ended && (
               <div className="mt-5">
-                <CoachTip 
-                  content="Feeling stuck? Try using context clues! Look at what Jordan is wearing or carrying — like a band shirt or sports logo — those are great conversation starters." 
-                />
+                <CoachTip content={stallNudge(getScenario(setup.scene), persona, sessionDbId ?? undefined)} />
               </div>
             )}
             
             {ended && (
               <div className="mt-12 space-y-8 animate-fade-in">
                 <SessionSummary
-                  summary={{
-                    practiced: summary.wentWell,
-                    improve: [summary.nextStep],
-                    sampleLine: summary.sampleLine || getSampleLine()
-                  }}
+                  report={report}
+                  name={persona.name}
                   onReset={reset}
                   sessionId={sessionId}
                   sessionCopied={sessionCopied}
@@ -752,116 +757,44 @@ export default function App() {
 }
 
 // --- Helpers ---
-function sceneContext(scene: Scene, interlocutor: "he" | "she" | "they"): string {
-  const pronoun = interlocutor === "he" ? "He" : interlocutor === "she" ? "She" : "They";
-  const pronounLower = interlocutor === "he" ? "him" : interlocutor === "she" ? "her" : "them";
-  const verb = interlocutor === "they" ? "are" : "is";
-  
-  switch(scene) {
-    case "bookstore": 
-      return `You are in a local bookstore and see Jordan standing a few feet away, looking at book titles. ${pronoun} ${verb} wearing a Nirvana band shirt and carrying a coffee tumbler with the Denver Broncos football logo.`;
-    case "coffee": 
-      return `You are in line at a busy campus coffee shop. The aroma of fresh espresso fills the air and students are chatting at tables nearby. You notice Jordan standing in line ahead of you.`;
-    case "campus": 
-      return `You are at a campus orientation event. There are booths set up with club information and students mingling around. Jordan is standing nearby, looking at one of the booths.`;
-    default:
-      return `You are in a local bookstore and see Jordan standing a few feet away, looking at book titles. ${pronoun} ${verb} wearing a Nirvana band shirt and carrying a coffee tumbler with the Denver Broncos football logo.`;
-  }
+// Sessions older than this aren't offered for resuming
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Pipeline state jordan-turn keeps in sessions.metadata, as far as resuming needs it
+interface ResumedMetadata {
+  turnState?: { difficulty?: Difficulty; phase?: { phase: Phase } };
 }
 
-function openingLine(scene: Scene) {
-  switch(scene){
-    case "coffee": return "Hey! I'm Jordan. This line moves pretty fast here. What do you usually order?";
-    case "campus": return "Hey! I'm Jordan. Orientation's wild, right? What are you hoping to check out first?";
-    default: return "Hey! I'm Jordan. That stack looks good — anything you'd recommend?";
+// The learner's open session with this token, if it started recently
+async function findResumableSession(sessionToken: string) {
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("id, session_id, session_token, scene, persona, interlocutor, difficulty, auto_difficulty, exit_practice, metadata, started_at, paused_at, total_turns")
+    .eq("session_token", sessionToken)
+    .is("ended_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to look up session:", error);
+    return null;
   }
+  if (!data?.started_at || Date.now() - Date.parse(data.started_at) > RESUME_WINDOW_MS) return null;
+  return data;
 }
 
-function shouldStallNudge(history: Turn[]) {
-  const last4 = history.slice(-4);
-  const userOnly = last4.filter(h => h.role === "user").map(h => h.content.trim());
-  if (userOnly.length < 2) return false;
-  const neutralish = (s:string)=> s.split(" ").length < 8 && !/[?]/.test(s);
-  return userOnly.slice(-2).every(neutralish);
-}
+type ResumableSession = NonNullable<Awaited<ReturnType<typeof findResumableSession>>>;
 
-function makeSummary(history: Turn[]) {
-  const userMsgs = history.filter(h => h.role === 'user');
-  const jordanMsgs = history.filter(h => h.role === 'assistant');
-  const coachTips = history.filter(h => h.role === 'user' && h.coachTip).map(h => h.coachTip);
-  
-  const userQCount = userMsgs.filter(msg => /\?/.test(msg.content)).length;
-  const jordanQCount = jordanMsgs.filter(msg => /\?/.test(msg.content)).length;
-  
-  // What they practiced (basic completion metrics)
-  const practiced = ["small talk practice"];
-  if (history.length > 6) practiced.push("multi-turn conversation");
-  if (history.length >= 10) practiced.push("sustained engagement");
-  
-  // What went well - analyze their strengths
-  const wentWell = [] as string[];
-  const reciprocityScore = userMsgs.length > 0 ? userQCount / userMsgs.length : 0;
-  const avgUserMsgLength = userMsgs.reduce((sum, msg) => sum + msg.content.trim().split(/\s+/).length, 0) / (userMsgs.length || 1);
-  
-  if (userQCount >= 3) wentWell.push("Asked multiple questions to show interest");
-  else if (userQCount >= 2) wentWell.push("Asked questions back");
-  
-  if (avgUserMsgLength >= 10) wentWell.push("Shared thoughtful responses");
-  else if (avgUserMsgLength >= 5) wentWell.push("Gave substantive answers");
-  
-  if (reciprocityScore >= 0.4) wentWell.push("Showed genuine curiosity");
-  if (history.length >= 6 && userQCount >= 2) wentWell.push("Maintained conversational flow");
-  
-  // Identify the LARGEST area for growth based on coaching received
-  let largestGrowthArea = "";
-  
-  // Count coaching themes
-  const coachingThemes = {
-    reciprocity: coachTips.filter(tip => tip && /ask.*question|reciprocity|what could you ask/i.test(tip)).length,
-    shortAnswers: coachTips.filter(tip => tip && /short|brief|elaborate/i.test(tip)).length,
-    notListening: coachTips.filter(tip => tip && /already told|not listening|asked you a question/i.test(tip)).length,
-    exitCues: coachTips.filter(tip => tip && /winding down|say goodbye|exit/i.test(tip)).length,
-    interviewing: coachTips.filter(tip => tip && /interview|commenting on.*answer/i.test(tip)).length
-  };
-  
-  // Find the most common issue
-  const maxCoaching = Math.max(...Object.values(coachingThemes));
-  
-  if (maxCoaching === 0) {
-    // No coaching given - analyze behavior directly
-    if (userQCount === 0 && userMsgs.length >= 3) {
-      largestGrowthArea = "Ask questions to show interest and keep the conversation balanced";
-    } else if (jordanQCount > userQCount * 2) {
-      largestGrowthArea = "Balance asking and sharing — try asking more questions to show engagement";
-    } else if (avgUserMsgLength < 5) {
-      largestGrowthArea = "Elaborate more on your answers to give the conversation depth";
-    } else {
-      largestGrowthArea = "Practice recognizing when it's time to wrap up the conversation";
-    }
-  } else {
-    // Use the most frequent coaching theme
-    if (coachingThemes.reciprocity === maxCoaching) {
-      largestGrowthArea = "Ask more questions to show interest and create balance in conversations";
-    } else if (coachingThemes.shortAnswers === maxCoaching) {
-      largestGrowthArea = "Expand your responses with more detail to keep conversations engaging";
-    } else if (coachingThemes.notListening === maxCoaching) {
-      largestGrowthArea = "Practice active listening — respond to what the other person shares";
-    } else if (coachingThemes.exitCues === maxCoaching) {
-      largestGrowthArea = "Learn to recognize and respond to conversation wind-down cues";
-    } else if (coachingThemes.interviewing === maxCoaching) {
-      largestGrowthArea = "Comment on answers before asking follow-up questions to avoid sounding like an interview";
-    }
-  }
-  
-  const sampleText = getSampleLine();
-  return { 
-    practiced, 
-    wentWell, 
-    nextStep: largestGrowthArea, 
-    sampleLine: sampleText 
-  };
+// Coach copy in the browser's language (falls back to English)
+function showTip(tip: TipRef, persona: Persona, vars?: Record<string, string>): string {
+  return renderTip(tip, { locale: navigator.language, vars: { name: persona.name, ...vars } });
 }
 
-function getSampleLine(){
-  return "Mind if I ask what you're reading lately?";
+function stallNudge(pack: ScenarioPack, persona: Persona, seed?: string): string {
+  if (pack.contextClues.length === 0 && persona.contextClues.length === 0) {
+    return showTip(pickTip("stallNudgeTopics", seed), persona, {
+      scene: pack.title.toLowerCase(),
+      topics: pack.allowedTopics.slice(0, 2).join(" or "),
+    });
+  }
+  return showTip(pickTip("stallNudge", seed), persona);
 }
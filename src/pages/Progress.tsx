@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress as ProgressBar } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, TrendingUp, Mail, LogOut, Loader2 } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { SKILLS, SKILL_LABELS, emptyLearnerProfile, type LearnerProfile } from "./learnerProfile";
+import {
+  currentLearner, linkLearnerEmail, loadLearnerProfile,
+  signInLearner, startTrackingProgress, stopTrackingProgress
+} from "./learnerStore";
+
+const SKILL_COLORS = ["hsl(var(--primary))", "hsl(var(--accent))", "#f59e0b", "#10b981", "#6366f1"];
+
+const BEHAVIOR_LABELS: Record<string, string> = {
+  askedFirstQuestion: "Asked a question",
+  sharedPersonally: "Shared something personal",
+  activeListening: "Listened actively",
+  gracefulClose: "Closed gracefully",
+  foundCommonGround: "Found common ground",
+  usedContextClues: "Used context clues",
+  followedSuggestion: "Put a tip into practice",
+};
+
+export default function Progress() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [learner, setLearner] = useState<User | null>(null);
+  const [profile, setProfile] = useState<LearnerProfile>(emptyLearnerProfile);
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    refresh();
+    // Magic links land here; pick up the new session when they do
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => refresh());
+    return () => subscription.unsubscribe();
+  }, []);
+
+  async function refresh() {
+    const user = await currentLearner();
+    setLearner(user);
+    setProfile(user ? await loadLearnerProfile(user.id) : emptyLearnerProfile());
+    setLoading(false);
+  }
+
+  async function handleStartTracking() {
+    try {
+      await startTrackingProgress();
+      toast({
+        title: "Progress tracking on",
+        description: "Your next conversations will count toward your progress.",
+      });
+    } catch (err) {
+      console.error("Failed to start tracking:", err);
+      toast({
+        title: "Couldn't start tracking",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function handleEmail(e: React.FormEvent) {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setSending(true);
+
+    try {
+      if (learner) {
+        await linkLearnerEmail(email.trim());
+      } else {
+        await signInLearner(email.trim());
+      }
+      toast({
+        title: "Check your email",
+        description: "Open the link we sent to finish signing in.",
+      });
+      setEmail("");
+    } catch (err) {
+      toast({
+        title: "Couldn't send the link",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function handleStopTracking() {
+    await stopTrackingProgress();
+    toast({
+      title: "Signed out",
+      description: learner?.is_anonymous
+        ? "Progress from this browser can't be recovered without an email."
+        : "Sign in with your email to pick up where you left off.",
+    });
+  }
+
+  const chartData = profile.progress.map((point, i) => ({
+    name: `#${i + 1}`,
+    date: new Date(point.startedAt).toLocaleDateString(),
+    ...Object.fromEntries(SKILLS.map(skill => [skill, Math.round(point.levels[skill] * 100)])),
+  }));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
+      <div className="max-w-3xl mx-auto px-4 md:px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-primary/10">
+              <TrendingUp className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold">Your progress</h1>
+              <p className="text-sm text-muted-foreground">How your conversation skills grow across sessions</p>
+            </div>
+          </div>
+          <a href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Practice
+            </Button>
+          </a>
+        </div>
+
+        {/* Account */}
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {!learner ? "Track your progress" : learner.is_anonymous ? "Keep your progress" : "Signed in"}
+            </CardTitle>
+            <CardDescription>
+              {!learner
+                ? "Optional. Sessions are anonymous unless you turn this on. Coaching adapts as you improve: fewer tips for skills you've mastered."
+                : learner.is_anonymous
+                  ? "Progress is saved in this browser. Add an email to keep it if you switch devices or clear your browser."
+                  : learner.email}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!learner && (
+              <Button onClick={handleStartTracking} className="w-full">
+                Track my progress
+              </Button>
+            )}
+            {(!learner || learner.is_anonymous) && (
+              <form onSubmit={handleEmail} className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder={learner ? "you@school.edu" : "Already tracking? Sign in with your email"}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <Button type="submit" variant="outline" disabled={sending || !email.trim()}>
+                  {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                </Button>
+              </form>
+            )}
+            {learner && (
+              <Button variant="ghost" size="sm" onClick={handleStopTracking}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {learner && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Skills</CardTitle>
+                <CardDescription>
+                  {profile.sessionCount === 0
+                    ? "Have a conversation to see your first results."
+                    : `Based on ${profile.sessionCount} practice session${profile.sessionCount === 1 ? "" : "s"}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {SKILLS.map(skill => {
+                  const progress = profile.skills[skill];
+                  return (
+                    <div key={skill} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{SKILL_LABELS[skill]}</span>
+                        {progress.mastered ? (
+                          <Badge>Mastered</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">{Math.round(progress.level * 100)}%</span>
+                        )}
+                      </div>
+                      <ProgressBar value={progress.level * 100} />
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {chartData.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Growth over time</CardTitle>
+                  <CardDescription>Skill level after each session</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={280}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis dataKey="name" className="text-xs" />
+                      <YAxis domain={[0, 100]} className="text-xs" />
+                      <Tooltip
+                        labelFormatter={(_, payload) => payload?.[0]?.payload.date}
+                        contentStyle={{ backgroundColor: 'hsl(var(--card))', border: '1px solid hsl(var(--border))' }}
+                      />
+                      <Legend />
+                      {SKILLS.map((skill, i) => (
+                        <Line key={skill} type="monotone" dataKey={skill} name={SKILL_LABELS[skill]} stroke={SKILL_COLORS[i]} strokeWidth={2} dot={false} />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+
+            {profile.earnedBehaviors.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Milestones</CardTitle>
+                  <CardDescription>Moves you've already been celebrated for</CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {profile.earnedBehaviors.map(behavior => (
+                    <Badge key={behavior} variant="secondary">{BEHAVIOR_LABELS[behavior] || behavior}</Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
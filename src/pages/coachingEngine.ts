@@ -15,12 +15,20 @@ import {
   ACKNOWLEDGMENT_WORDS,
   DEFLECTION_PATTERNS,
   MINIMAL_RESPONSE_PATTERNS,
-} from "./constants";
+  DEFAULTS,
+  type Scene,
+} from "./constants.ts";
+import { getScenario, mentionsContextClue } from "./scenarios.ts";
+import { getPersona } from "./personas.ts";
+import { assessDistress, hasDistress } from "./distress.ts";
+import { getTip, type TipId, type TipTheme } from "./tipCatalog.ts";
+import { getDifficulty, type Difficulty } from "./difficulty.ts";
+import type { Phase } from "./conversationPhase.ts";
 
 interface Turn {
   role: "user" | "assistant";
   content: string;
-  coachTip?: string;
+  coachTipId?: TipId;
 }
 
 // Track which positive behaviors have been celebrated (first-time only)
@@ -41,81 +49,32 @@ interface CoachingContext {
   cooldown: boolean;
   jordanEndedConversation: boolean;
   celebratedBehaviors?: CelebratedBehaviors;
+  scene?: Scene;
+  // Persona id; their visible context clues count for usedContextClues
+  persona?: string;
+  // Skills the learner has mastered in past sessions (see learnerProfile.ts)
+  masteredSkills?: TipTheme[];
+  // Sets how often tips may appear (see difficulty.ts)
+  difficulty?: Difficulty;
+  // Phase Jordan's last message was written in (see conversationPhase.ts)
+  phase?: Phase;
 }
 
 export interface CoachChatMessage {
-  content: string;
+  tipId: TipId;
   type: "celebration" | "insight";
-}
-
-/**
- * Jordan Behavior Insights
- * Explain WHY Jordan does certain things to help users understand social dynamics
- */
-const JORDAN_BEHAVIOR_INSIGHTS: Record<string, string> = {
-  closing: "Jordan is starting to wrap up — in real life, people often signal they need to go before actually leaving. It's a polite way to give you a chance to say goodbye.",
-  askingQuestion: "Notice how Jordan asked a question? That's a common way to show interest and keep conversations balanced.",
-  sharingPersonal: "Jordan shared something personal — this is an invitation for you to share too. It builds connection.",
-  changingTopic: "Jordan shifted topics — this often happens naturally in conversations when one thread runs its course.",
-};
-
-/**
- * Distress Detection Helper
- * Returns distress level: 0 = none, 1 = low, 2 = high
- */
-function detectDistressLevel(text: string): number {
-  const lowerText = text.toLowerCase();
-  
-  // High distress signals
-  const highDistressPatterns = [
-    "can't keep going", "can't go on", "give up", "no point", "want to die",
-    "kill myself", "end it all", "better off dead", "no way out", "can't take it"
-  ];
-  
-  // Low distress signals
-  const lowDistressPatterns = [
-    "struggling", "hard time", "feeling down", "stressed out", "overwhelmed",
-    "depressed", "anxious", "worried", "can't handle", "falling apart",
-    "losing it", "breaking down", "burnt out", "exhausted"
-  ];
-  
-  if (highDistressPatterns.some(pattern => lowerText.includes(pattern))) {
-    return 2;
-  }
-  
-  if (lowDistressPatterns.some(pattern => lowerText.includes(pattern))) {
-    return 1;
-  }
-  
-  return 0;
-}
-
-/**
- * Check recent conversation for distress trajectory
- * Returns true if conversation has shifted toward emotional heaviness
- */
-function hasDescendingTrajectory(history: Turn[], currentText: string): boolean {
-  const recentMessages = [...history.slice(-5), { role: "user" as const, content: currentText }];
-  let distressCount = 0;
-  
-  for (const msg of recentMessages) {
-    if (msg.role === "user" && detectDistressLevel(msg.content) > 0) {
-      distressCount++;
-    }
-  }
-  
-  // If 2+ distress signals in last 5 messages, trajectory is descending
-  return distressCount >= 2;
+  // Insight key, e.g. "closing" (insights only)
+  rule?: string;
 }
 
 /**
  * Generate positive reinforcement for first-time positive behaviors
- * Returns { tip, behaviorKey } if a celebration is warranted
+ * Returns the behavior to celebrate (its key doubles as the tip ID), if any
  */
 function generatePositiveReinforcement(
   context: CoachingContext
-): { tip: string; behaviorKey: keyof CelebratedBehaviors } | undefined {
-  const { userText, history, jordanEndedConversation, celebratedBehaviors } = context;
+): keyof CelebratedBehaviors | undefined {
+  const { userText, history, jordanEndedConversation, celebratedBehaviors, scene, persona } = context;
   
   if (!celebratedBehaviors) return undefined;
   
@@ -127,10 +86,7 @@ function generatePositiveReinforcement(
   if (!celebratedBehaviors.askedFirstQuestion && hasQuestion && userMessages.length >= 2) {
     const previousUserAsked = userMessages.slice(0, -1).some(msg => /\?/.test(msg.content));
     if (!previousUserAsked) {
-      return {
-        tip: "Nice! Asking questions is one of the best ways to connect — people love talking about themselves.",
-        behaviorKey: "askedFirstQuestion"
-      };
+      return "askedFirstQuestion";
     }
   }
   
@@ -143,10 +99,7 @@ function generatePositiveReinforcement(
       const wordCount = userText.trim().split(/\s+/).length;
       
       if (jordanShared && userShares && wordCount >= 8) {
-        return {
-          tip: "That's the vibe — sharing about yourself builds real connection.",
-          behaviorKey: "sharedPersonally"
-        };
+        return "sharedPersonally";
       }
     }
   }
@@ -170,10 +123,7 @@ function generatePositiveReinforcement(
       const hasCallback = /\b(you (said|mentioned|were saying)|that('s| is) (cool|interesting|awesome|neat))\b/i.test(userText);
       
       if (userReferences || hasCallback) {
-        return {
-          tip: "Great listening — referencing what someone said makes them feel heard.",
-          behaviorKey: "activeListening"
-        };
+        return "activeListening";
       }
     }
   }
@@ -182,10 +132,7 @@ function generatePositiveReinforcement(
   if (!celebratedBehaviors.gracefulClose && jordanEndedConversation) {
     const gracefulClose = /\b(nice (to |talking|chatting|meeting)|good (talking|chatting|to meet)|take care|see you|catch you|have a good|was (nice|great|fun))\b/i.test(userLower);
     if (gracefulClose) {
-      return {
-        tip: "Smooth close — ending warmly leaves a good impression.",
-        behaviorKey: "gracefulClose"
-      };
+      return "gracefulClose";
     }
   }
   
@@ -226,56 +173,36 @@ function generatePositiveReinforcement(
         const userEchoesTopic = jordanMentionedTopic && userText.toLowerCase().includes(jordanMentionedTopic);
         
         if (userShowsCommonGround || userEchoesTopic) {
-          return {
-            tip: "Finding common ground — that's one of the fastest ways to build connection with someone new.",
-            behaviorKey: "foundCommonGround"
-          };
+          return "foundCommonGround";
         }
       }
     }
   }
   
-  // 6. User uses context clues from the scene (Nirvana, Broncos, sports, music, 90s culture)
+  // 6. User uses context clues from the scene (the persona's and scenario pack's visible clues)
   if (!celebratedBehaviors.usedContextClues) {
-    const contextCluePatterns = [
-      // Nirvana / music / band references
-      /\b(nirvana|band|music|shirt|t-shirt|tee)\b/i,
-      /\b(grunge|90s|nineties|kurt cobain|rock|alternative)\b/i,
-      /\b(concert|tour|album|song|listen|favorite band)\b/i,
-      // Broncos / sports / football references
-      /\b(broncos|denver|football|nfl|sports|tumbler|mug|cup)\b/i,
-      /\b(game|season|playoffs|team|fan|watch the game)\b/i,
-      // General context clue usage patterns
-      /\b(i (noticed|saw|see|like) (your|the|that))\b/i,
-      /\b(cool|nice|awesome|love) (shirt|tumbler|cup|logo)\b/i,
-    ];
-    
-    const usedContextClue = contextCluePatterns.some(pattern => pattern.test(userText));
+    // General context clue usage pattern, independent of the scene
+    const noticedSomething = /\b(i (noticed|saw|see|like) (your|the|that))\b/i.test(userText);
+    const usedContextClue = noticedSomething || mentionsContextClue(getScenario(scene || DEFAULTS.scene), getPersona(persona), userText);
     
     if (usedContextClue) {
-      return {
-        tip: "Great job using context clues to figure out a good conversation topic!",
-        behaviorKey: "usedContextClues"
-      };
+      return "usedContextClues";
     }
   }
   
   // 7. User followed a coach suggestion (check if previous tip was acted on)
   if (!celebratedBehaviors.followedSuggestion && history.length >= 2) {
-    const recentTips = history.slice(-3).filter(h => h.coachTip);
+    const recentTips = history.slice(-3).filter(h => h.coachTipId);
     if (recentTips.length > 0) {
-      const lastTip = recentTips[recentTips.length - 1].coachTip || "";
+      const suggestion = getTip(recentTips[recentTips.length - 1].coachTipId).suggests;
       
-      // Check if user followed common tip patterns
-      const followedAskQuestion = lastTip.includes("question") && hasQuestion;
-      const followedShareName = lastTip.includes("name") && /\b(i'm|my name|call me)\s+\w+/i.test(userText);
-      const followedAcknowledge = lastTip.includes("acknowledge") && ACKNOWLEDGMENT_WORDS.some(w => userLower.includes(w));
+      // Check if user did what the last tip suggested
+      const followedAskQuestion = suggestion === "askQuestion" && hasQuestion;
+      const followedShareName = suggestion === "shareName" && /\b(i'm|my name|call me)\s+\w+/i.test(userText);
+      const followedAcknowledge = suggestion === "acknowledge" && ACKNOWLEDGMENT_WORDS.some(w => userLower.includes(w));
       
       if (followedAskQuestion || followedShareName || followedAcknowledge) {
-        return {
-          tip: "You picked that up fast — that's exactly the kind of move that makes conversations flow.",
-          behaviorKey: "followedSuggestion"
-        };
+        return "followedSuggestion";
       }
     }
   }
@@ -303,18 +230,34 @@ export function detectJordanBehavior(history: Turn[]): CoachChatMessage | undefi
   
   const isClosing = closingPatterns.some(p => p.test(jordanContent)) && !/\?/.test(jordanContent);
   if (isClosing) {
-    return { content: JORDAN_BEHAVIOR_INSIGHTS.closing, type: "insight" };
+    return { tipId: "jordanClosing", type: "insight", rule: "closing" };
   }
   
   return undefined;
 }
 
-export function generateCoachTip(context: CoachingContext): { 
-  tip?: string; 
+interface CoachResult { 
+  // Catalog ID of the tip to show; wording comes from tipCatalog.ts
+  tipId?: TipId; 
+  // Which rule produced the tip, e.g. "exitCues" (used by the coaching eval harness)
+  rule?: string;
   celebratedBehavior?: keyof CelebratedBehaviors;
   chatMessage?: CoachChatMessage;
-} {
+}
+
+export function generateCoachTip(context: CoachingContext): CoachResult {
+  const result = selectCoachTip(context);
+  
+  // Progressive: once a skill is mastered, stop coaching it (safety tips have no skill)
+  const skill = result.tipId && getTip(result.tipId).theme;
+  if (skill && context.masteredSkills?.includes(skill)) return {};
+  
+  return result;
+}
+
+function selectCoachTip(context: CoachingContext): CoachResult {
   const { userText, history, triggerKind, cooldown, jordanEndedConversation } = context;
+  const { maxTips, tipSpacing, milestones } = getDifficulty(context.difficulty).coaching;
   
   // Safety tips (PII, CONTROVERSIAL, CRISIS) ALWAYS bypass cooldown and rate limits
   const isSafetyTip = triggerKind === "PII" || triggerKind === "CONTROVERSIAL" || triggerKind === "CRISIS";
@@ -322,25 +265,24 @@ export function generateCoachTip(context: CoachingContext): {
   // Cooldown from previous tip (except safety tips)
   if (cooldown && !isSafetyTip) return {};
   
-  // Rate limiting: Don't show more than 4 tips in a session (except safety tips)
-  const tipCount = history.filter(h => h.coachTip).length;
-  if (tipCount >= 4 && !isSafetyTip) {
+  // Rate limiting: Don't show more than maxTips tips in a session (except safety tips)
+  const tipCount = history.filter(h => h.coachTipId).length;
+  if (tipCount >= maxTips && !isSafetyTip) {
     return {};
   }
   
-  // Spacing: Require at least 2 exchanges between tips (except safety tips)
-  const recentHistory = history.slice(-3);
-  const recentTipCount = recentHistory.filter(h => h.coachTip).length;
+  // Spacing: Require a few exchanges between tips (except safety tips)
+  const recentHistory = history.slice(-tipSpacing);
+  const recentTipCount = recentHistory.filter(h => h.coachTipId).length;
   if (recentTipCount > 0 && !isSafetyTip) {
     return {};
   }
   
   // DISTRESS PRE-FILTER: Check emotional context before any coaching
-  const currentDistress = detectDistressLevel(userText);
-  const hasDistressTrajectory = hasDescendingTrajectory(history, userText);
+  const distress = assessDistress(userText, history);
   
-  // If user is showing distress, suppress all non-safety coaching
-  if (currentDistress > 0 || hasDistressTrajectory) {
+  // If user is showing distress (any tier) or the conversation has turned heavy, suppress all non-safety coaching
+  if (distress.tier !== null || distress.trajectory.descending) {
     // Only allow Tier 1 (Safety) tips to pass through
     if (triggerKind !== "PII" && triggerKind !== "CONTROVERSIAL" && triggerKind !== "CRISIS") {
       return {}; // Suppress all skill-building tips
@@ -349,11 +291,11 @@ export function generateCoachTip(context: CoachingContext): {
   
   // *** POSITIVE REINFORCEMENT: Check for first-time positive behaviors ***
   // These appear as chat messages (celebrations), not as tips
-  const positiveReinforcement = generatePositiveReinforcement(context);
-  if (positiveReinforcement) {
+  const celebratedBehavior = generatePositiveReinforcement(context);
+  if (celebratedBehavior) {
     return { 
-      celebratedBehavior: positiveReinforcement.behaviorKey,
-      chatMessage: { content: positiveReinforcement.tip, type: "celebration" }
+      celebratedBehavior,
+      chatMessage: { tipId: celebratedBehavior, type: "celebration" }
     };
   }
   
@@ -367,24 +309,23 @@ export function generateCoachTip(context: CoachingContext): {
   
   // TIER 1: Safety & Appropriateness (Always show)
   if (triggerKind === "PII") {
-    return { tip: "It's best to wait until you know someone better before sharing where you live or other personal details. For safety reasons, keep that info private with people you've just met." };
+    return { tipId: "pii", rule: "pii" };
   }
   
   if (triggerKind === "CONTROVERSIAL") {
-    return { tip: "Topics like politics or religion can derail small talk. Try lighter subjects to build rapport first." };
+    return { tipId: "controversial", rule: "controversial" };
   }
   
   // Crisis-adjacent topics (should never reach here if properly handled by Index.tsx crisis flow)
   if (triggerKind === "CRISIS") {
-    return { tip: "That's a heavy or personal topic for casual small talk. Try pivoting to something lighter like hobbies, the scene, or asking Jordan a question." };
+    return { tipId: "heavyTopic", rule: "crisis" };
   }
   
   // TIER 2: Critical Conversation Errors (High priority)
   
   // Self-Introduction Check
   if (history.length >= 1 && history.length <= 3) {
-    const selfIntroTip = checkSelfIntroduction(userText, history);
-    if (selfIntroTip) return { tip: selfIntroTip };
+    if (needsSelfIntroduction(userText, history)) return { tipId: "selfIntro", rule: "selfIntro" };
   }
   
   // Not answering Jordan's direct question
@@ -392,14 +333,14 @@ export function generateCoachTip(context: CoachingContext): {
     const lastJordan = history[history.length - 1];
     if (lastJordan?.role === "assistant" && /\?/.test(lastJordan.content)) {
       if (isGreetingOnly) {
-        return { tip: "Jordan asked you something — that's a great chance to share a bit about yourself." };
+        return { tipId: "unansweredQuestion", rule: "unansweredQuestion" };
       }
       
       const hasAnswerContent = /\b(i|i'm|i've|my|me|mine|i'd|i'll|yeah|yes|no|nope|definitely|absolutely|sure|totally)\b/i.test(userText);
       const isPurelyQuestion = hasQuestion && wordCount < 6 && !hasAnswerContent;
       
       if (isPurelyQuestion) {
-        return { tip: "Tip: answering Jordan's question before asking yours helps the conversation feel balanced." };
+        return { tipId: "answerFirst", rule: "answerFirst" };
       }
     }
   }
@@ -410,42 +351,38 @@ export function generateCoachTip(context: CoachingContext): {
     const jordanAskedQuestion = /\?/.test(lastJordan);
     
     if (jordanAskedQuestion) {
-      return { tip: "Tip: Jordan asked you something — this is a great opening to share a bit about yourself!" };
+      return { tipId: "greetingOnlyAfterQuestion", rule: "greetingOnly" };
     } else {
-      return { tip: "Tip: after 'hey', try adding a thought or question to get the conversation rolling." };
+      return { tipId: "greetingOnly", rule: "greetingOnly" };
     }
   }
   
   // Asking about something Jordan already shared
   if (hasQuestion && history.length >= 3) {
-    const tip = checkRepeatedQuestion(userText, history);
-    if (tip) return { tip };
+    if (isRepeatedQuestion(userText, history)) return { tipId: "repeatedQuestion", rule: "repeatedQuestion" };
   }
   
   // TIER 3: Conversation Flow Issues (Medium priority)
   
   // Active Listening Check
   if (history.length >= 2 && hasQuestion) {
-    const activeListeningTip = checkActiveListening(userText, history);
-    if (activeListeningTip) return { tip: activeListeningTip };
+    if (skipsAcknowledgment(userText, history)) return { tipId: "acknowledgeFirst", rule: "acknowledgeFirst" };
   }
   
   // Build on the Share Check
   if (history.length >= 2) {
-    const buildOnShareTip = checkBuildOnShare(userText, history);
-    if (buildOnShareTip) return { tip: buildOnShareTip };
+    if (ignoresShare(userText, history)) return { tipId: "buildOnShare", rule: "buildOnShare" };
   }
   
   // Deflection Detection
   if (history.length >= 2) {
-    const deflectionTip = checkDeflection(userText, history);
-    if (deflectionTip) return { tip: deflectionTip };
+    if (isDeflecting(userText, history)) return { tipId: "deflection", rule: "deflection" };
   }
   
   // Jordan is winding down but user isn't picking up on it
   if (history.length >= 3) {
-    const exitTip = checkExitCues(userText, history, jordanEndedConversation);
-    if (exitTip) return { tip: exitTip };
+    const exitTipId = missedExitCue(userText, history, jordanEndedConversation, context.phase);
+    if (exitTipId) return { tipId: exitTipId, rule: "exitCues" };
   }
   
   // User stuck/uncertain
@@ -454,9 +391,9 @@ export function generateCoachTip(context: CoachingContext): {
     const jordanAskedQuestion = /\?/.test(lastJordan);
     
     if (jordanAskedQuestion) {
-      return { tip: "Feeling stuck? Try: 'Hmm, I haven't thought about that — what about you?' It's okay to redirect." };
+      return { tipId: "stuckAfterQuestion", rule: "stuck" };
     } else {
-      return { tip: "Not sure what to say? Ask Jordan to share more: 'How'd you get into that?' shows genuine curiosity." };
+      return { tipId: "stuck", rule: "stuck" };
     }
   }
   
@@ -479,53 +416,53 @@ export function generateCoachTip(context: CoachingContext): {
       });
       
       if (!hasSharedAboutSelf && !hasAcknowledged) {
-        return { tip: "Asking questions is great — you'll also want to break it up by sharing about yourself or responding to what they said, so it doesn't feel like an interview." };
+        return { tipId: "interviewMode", rule: "interviewMode" };
       }
     }
   }
   
   // No reciprocity - answering without asking back
   if (!jordanEndedConversation && history.length >= 4 && !isGreetingOnly) {
-    const recentDistress = lastThreeUserMsgs.some(msg => detectDistressLevel(msg.content) > 0);
+    const recentDistress = lastThreeUserMsgs.some(msg => hasDistress(msg.content));
     
     if (!recentDistress && lastThreeUserMsgs.every(msg => {
       const msgIsGreeting = greetingOnlyPattern.test(msg.content.toLowerCase()) && msg.content.trim().split(/\s+/).length < 3;
       return !msgIsGreeting && !/\?/.test(msg.content);
     })) {
-      return { tip: "Tip: tossing a question back to Jordan — like 'what about you?' — keeps the energy flowing both ways." };
+      return { tipId: "noReciprocity", rule: "noReciprocity" };
     }
   }
   
   // TIER 4: Skill Development Tips (Lower priority)
   
   // Milestone check-ins
-  if (history.length === 3) {
+  if (history.length === milestones.milestoneAskBack) {
     const userHasAskedQuestion = userMessages.some(msg => /\?/.test(msg.content));
     if (!userHasAskedQuestion && !hasQuestion) {
-      return { tip: "Tip: people love being asked about themselves — a simple 'what about you?' can open things up." };
+      return { tipId: "milestoneAskBack", rule: "milestoneAskBack" };
     }
   }
   
-  if (history.length === 5) {
-    return { tip: "You're getting into a rhythm! Notice how open-ended questions ('What do you think about...?') invite more interesting answers than yes/no questions." };
+  if (history.length === milestones.milestoneOpenEnded) {
+    return { tipId: "milestoneOpenEnded", rule: "milestoneOpenEnded" };
   }
   
-  if (history.length === 8) {
-    return { tip: "Conversations often wrap up around now. Watch for exit cues like 'I should get going' — they're invitations to say goodbye gracefully." };
+  if (history.length === milestones.milestoneWrapUp) {
+    return { tipId: "milestoneWrapUp", rule: "milestoneWrapUp" };
   }
   
   // Length coaching (only when extreme)
   if (wordCount < 3 && !isGreetingOnly && history.length > 2) {
-    return { tip: "Tip: adding a quick thought or follow-up question — like 'Nice! What got you into that?' — can help keep the momentum going." };
+    return { tipId: "tooShort", rule: "tooShort" };
   }
   
   if (wordCount > 60 && !hasQuestion && history.length > 1) {
-    return { tip: "Great detail! End with a question like 'What do you think?' to invite Jordan back into the conversation." };
+    return { tipId: "tooLong", rule: "tooLong" };
   }
   
   // First message overshare
   if (history.length === 1 && wordCount > 50) {
-    return { tip: "Nice opener! In casual small talk, shorter first responses (2-3 sentences) leave room for back-and-forth to develop naturally." };
+    return { tipId: "longOpener", rule: "longOpener" };
   }
   
   return {};
@@ -534,15 +471,15 @@ export function generateCoachTip(context: CoachingContext): {
 /**
  * NEW: Check if user should introduce themselves after Jordan did
  */
-function checkSelfIntroduction(userText: string, history: Turn[]): string | undefined {
+function needsSelfIntroduction(userText: string, history: Turn[]): boolean {
   // Only check in first few exchanges
-  if (history.length === 0 || history.length > 3) return undefined;
+  if (history.length === 0 || history.length > 3) return false;
   
   // Check if Jordan's first message introduced themselves
   const jordanFirstMsg = history.find(h => h.role === "assistant")?.content || "";
   const jordanIntroduced = INTRODUCTION_PATTERNS.jordanIntro.test(jordanFirstMsg);
   
-  if (!jordanIntroduced) return undefined;
+  if (!jordanIntroduced) return false;
   
   // Check if user has shared their name in any of their messages
   const allUserMessages = history.filter(h => h.role === "user").map(h => h.content);
@@ -553,28 +490,24 @@ function checkSelfIntroduction(userText: string, history: Turn[]): string | unde
     INTRODUCTION_PATTERNS.casualNameShare.test(msg)
   );
   
-  if (!userIntroduced && history.length >= 1) {
-    return "Tip: Jordan shared their name — dropping yours in ('I'm [name]') is an easy way to make the chat feel more personal.";
-  }
-  
-  return undefined;
+  return !userIntroduced && history.length >= 1;
 }
 
 /**
  * NEW: Check if user is asking without acknowledging what Jordan said
  */
-function checkActiveListening(userText: string, history: Turn[]): string | undefined {
-  if (history.length < 2) return undefined;
+function skipsAcknowledgment(userText: string, history: Turn[]): boolean {
+  if (history.length < 2) return false;
   
   const lastJordan = history[history.length - 1];
-  if (lastJordan?.role !== "assistant") return undefined;
+  if (lastJordan?.role !== "assistant") return false;
   
   // If Jordan asked a question, user asking back is expected
-  if (/\?/.test(lastJordan.content)) return undefined;
+  if (/\?/.test(lastJordan.content)) return false;
   
   // Jordan made a statement (no question) - user should acknowledge before asking new question
   const userAsksWithoutAcknowledging = /\?/.test(userText);
-  if (!userAsksWithoutAcknowledging) return undefined;
+  if (!userAsksWithoutAcknowledging) return false;
   
   const userLower = userText.toLowerCase().trim();
   
@@ -585,31 +518,27 @@ function checkActiveListening(userText: string, history: Turn[]): string | undef
   });
   
   // If they acknowledged AND asked, that's great - no tip needed
-  if (hasAcknowledgment) return undefined;
+  if (hasAcknowledgment) return false;
   
   // User jumped straight to a question without acknowledging
   const wordCount = userText.trim().split(/\s+/).length;
-  if (wordCount < 10) { // Short question with no acknowledgment
-    return "Tip: a quick 'oh cool!' or 'nice!' before your question can make the conversation feel warmer.";
-  }
-  
-  return undefined;
+  return wordCount < 10; // Short question with no acknowledgment
 }
 
 /**
  * NEW: Check if user gave minimal response to Jordan's personal share
  */
-function checkBuildOnShare(userText: string, history: Turn[]): string | undefined {
-  if (history.length < 2) return undefined;
+function ignoresShare(userText: string, history: Turn[]): boolean {
+  if (history.length < 2) return false;
   
   const lastJordan = history[history.length - 1];
-  if (lastJordan?.role !== "assistant") return undefined;
+  if (lastJordan?.role !== "assistant") return false;
   
   const jordanContent = lastJordan.content.toLowerCase();
   
   // Check if Jordan shared something personal (uses first person)
   const jordanSharedPersonal = /\b(i|i'm|i've|my|i'd|i'll)\s+\w+/i.test(jordanContent);
-  if (!jordanSharedPersonal) return undefined;
+  if (!jordanSharedPersonal) return false;
   
   // Check if user's response is minimal
   const userLower = userText.toLowerCase().trim();
@@ -619,41 +548,31 @@ function checkBuildOnShare(userText: string, history: Turn[]): string | undefine
   const wordCount = userText.trim().split(/\s+/).length;
   const hasQuestion = /\?/.test(userText);
   
-  if ((isMinimalResponse || wordCount <= 3) && !hasQuestion) {
-    return "Tip: Jordan just shared something — a follow-up like 'how'd you get into that?' keeps the convo going.";
-  }
-  
-  return undefined;
+  return (isMinimalResponse || wordCount <= 3) && !hasQuestion;
 }
 
 /**
  * NEW: Check for low-effort deflection responses
  */
-function checkDeflection(userText: string, history: Turn[]): string | undefined {
-  if (history.length < 2) return undefined;
+function isDeflecting(userText: string, history: Turn[]): boolean {
+  if (history.length < 2) return false;
   
   const lastJordan = history[history.length - 1];
-  if (lastJordan?.role !== "assistant") return undefined;
+  if (lastJordan?.role !== "assistant") return false;
   
   // Check if Jordan asked a question
-  if (!/\?/.test(lastJordan.content)) return undefined;
+  if (!/\?/.test(lastJordan.content)) return false;
   
   const userLower = userText.toLowerCase().trim();
   
   // Check if user is deflecting with minimal question-back
-  const isDeflecting = DEFLECTION_PATTERNS.some(pattern => pattern.test(userLower));
-  
-  if (isDeflecting) {
-    return "Good instinct to ask back! Try adding your own thought first — 'I usually go with X. You?' makes it more of an exchange.";
-  }
-  
-  return undefined;
+  return DEFLECTION_PATTERNS.some(pattern => pattern.test(userLower));
 }
 
 /**
  * Check if user is asking about something Jordan already mentioned
  */
-function checkRepeatedQuestion(userText: string, history: Turn[]): string | undefined {
+function isRepeatedQuestion(userText: string, history: Turn[]): boolean {
   const jordanMessages = history.filter(h => h.role === "assistant").map(h => h.content.toLowerCase());
   const userQuestion = userText.toLowerCase();
   
@@ -677,19 +596,19 @@ function checkRepeatedQuestion(userText: string, history: Turn[]): string | unde
       });
     });
     
-    if (alreadyAnswered) {
-      return "Tip: Jordan touched on this earlier — try building on what they said, like 'you mentioned X — tell me more about that!'";
-    }
+    if (alreadyAnswered) return true;
   }
   
-  return undefined;
+  return false;
 }
 
 /**
  * Check if user is missing Jordan's exit cues
  */
-function checkExitCues(userText: string, history: Turn[], jordanEnded: boolean): string | undefined {
+function missedExitCue(userText: string, history: Turn[], jordanEnded: boolean, phase?: Phase): TipId | undefined {
   if (jordanEnded) return undefined; // Already handled elsewhere
+  // "Anyway" or "alright" early on is just a change of topic, not a wind-down
+  const windingDown = phase !== "opening" && phase !== "balancing";
   
   const recentJordanMsgs = history.slice(-5).filter(h => h.role === "assistant");
   const windDownPatterns = [
@@ -704,6 +623,7 @@ function checkExitCues(userText: string, history: Turn[], jordanEnded: boolean):
   
   for (const msg of recentJordanMsgs.slice(-2)) {
     for (const { pattern, type } of windDownPatterns) {
+      if (type === "transition" && !windingDown) continue;
       if (pattern.test(msg.content)) {
         exitCueFound = true;
         exitType = type;
@@ -717,31 +637,30 @@ function checkExitCues(userText: string, history: Turn[], jordanEnded: boolean):
   const userWindingDown = /\b(bye|goodbye|see you|take care|thanks|gotta go|have a good|nice talking)/i.test(userText);
   
   if (exitCueFound && !userWindingDown) {
-    if (exitType === "leaving" || exitType === "farewell") {
-      return "Tip: sounds like Jordan's wrapping up — a friendly 'nice talking to you!' or 'take care!' lands well here.";
-    } else {
-      return "Tip: Jordan's winding down — matching their energy with a casual goodbye wraps things up nicely.";
-    }
+    return exitType === "leaving" || exitType === "farewell" ? "exitCuesLeaving" : "exitCuesWindingDown";
   }
   
   return undefined;
 }
 
 /**
- * Determine if conversation should show stall nudge
+ * Determine if conversation should show stall nudge: the learner has been
+ * idle (Index.tsx's pause timer) or their last few messages are brief with
+ * no questions. Turns may include coach messages; only user turns count.
  * Context-aware: checks for distress before suggesting pause
  */
-export function shouldStallNudge(history: Turn[], pauseContext?: string): boolean {
-  if (history.length < 4) return false;
-  
+export function shouldStallNudge(history: { role: string; content: string }[], idle = false): boolean {
   const lastThreeUser = history.filter(h => h.role === "user").slice(-3);
   
   // Check if recent messages contain distress
-  const hasDistress = lastThreeUser.some(msg => detectDistressLevel(msg.content) > 0);
+  const recentDistress = lastThreeUser.some(msg => hasDistress(msg.content));
   
   // If distress is present, suppress stall nudge entirely
   // (User may need time to process emotions, not coaching about pausing)
-  if (hasDistress) return false;
+  if (recentDistress) return false;
+  
+  if (idle) return true;
+  if (history.length < 4) return false;
   
   const allBriefAndNoQuestions = lastThreeUser.every(msg => {
     const words = msg.content.trim().split(/\s+/).length;
@@ -1,5 +1,5 @@
-export const SCENES = ["bookstore", "coffee", "campus"] as const;
-export type Scene = typeof SCENES[number];
+// Scenario pack id (see scenarios.ts for the registry)
+export type Scene = string;
 
 export const DEFAULTS = {
   scene: "bookstore" as Scene,
@@ -7,26 +7,30 @@ export const DEFAULTS = {
 };
 
 // Guardrail patterns - Three-tiered crisis detection system
+// Keyword syntax (see keywordMatcher.ts): whole words, "word*" for prefixes,
+// "a ... b" for up to 3 words in between. Leetspeak, spacing and stretched
+// letters are normalized, so list plain spellings only.
 // TIER 1: Explicit, high-risk - trigger immediate LLM analysis
 export const TIER_1_CRISIS_KEYWORDS = [
   // Explicit suicidal language
-  "suicide", "suicidal", "suicid", "kill myself", "end it all", "end my life",
+  "suicid*", "kill myself", "kil myself", "end it all", "end my life",
   "off myself", "want to die", "wanna die", "ending my life",
+  "take my own life", "take my life", "don't want to be alive", "don't want to wake up",
   
   // Self-harm
-  "self-harm", "self harm", "hurt myself", "cutting myself",
+  "self-harm", "self harm", "self harming", "hurt myself", "cutting myself",
   
   // Internet slang (explicit)
-  "kms", "kys", "unalive", "unaliving",
+  "kms", "kys", "unaliv*",
   
   // Better off dead variants
-  "better off dead", "should be dead", "deserve to die"
+  "better off ... dead", "should be dead", "deserve to die"
 ];
 
 // TIER 2: Ambiguous distress signals - accumulate or analyze sentiment
 export const TIER_2_DISTRESS_KEYWORDS = [
   // Hopelessness (ambiguous)
-  "hopeless", "no hope", "lost hope", "no point", "no reason to",
+  "hopeless", "no hope", "lost hope", "no point", "no reason to", "no way out",
   "can't keep going", "can't go on", "give up", "giving up",
   
   // Finality language (caught "bye forever")
@@ -39,7 +43,7 @@ export const TIER_2_DISTRESS_KEYWORDS = [
   
   // Isolation indicators
   "no one will miss", "better without me", "won't matter",
-  "no one cares", "alone in this",
+  "no one cares", "no1 cares", "alone in this", "a burden to", "nothing ... matters anymore",
   
   // Exhaustion/giving up
   "tired of living", "tired of trying", "don't want to be here",
@@ -50,6 +54,13 @@ export const TIER_2_DISTRESS_KEYWORDS = [
   "stories of hope", "stories of survival", "need help"
 ];
 
+// TIER 3: Everyday stress - never escalates, but pauses skill-building coaching
+export const TIER_3_STRESS_KEYWORDS = [
+  "struggling", "hard time", "feeling down", "stressed out", "overwhelmed",
+  "depressed", "anxious", "worried", "can't handle", "losing it",
+  "burnt out", "exhausted"
+];
+
 // Legacy keyword list (kept for backward compatibility with existing trigger detection)
 export const CRISIS_KEYWORDS = [...TIER_1_CRISIS_KEYWORDS, ...TIER_2_DISTRESS_KEYWORDS];
 export const CONTROVERSIAL_KEYWORDS = ["politics", "religion", "trump", "biden", "abortion", "gun control", "immigration", "sex", "sexual"];
@@ -0,0 +1,131 @@
+import type { PhaseThresholds } from "./scenarios.ts";
+
+/**
+ * Conversation Phase
+ *
+ * Where the conversation is (opening → balancing → wrapping up → closing),
+ * advanced once per learner message by what the learner actually did rather
+ * than by a message count. A learner who starts asking questions back moves
+ * on from the opening early; one who is opening up keeps the conversation in
+ * balancing past the scenario's usual length; two disengaged replies in a row
+ * start the wrap-up; a goodbye from either side ends it. The scenario pack's
+ * phaseThresholds are the bounds.
+ */
+
+export type Phase = "opening" | "balancing" | "wrappingUp" | "closing";
+
+export const PHASE_LABELS: Record<Phase, string> = {
+  opening: "Opening",
+  balancing: "Balancing",
+  wrappingUp: "Wrapping up",
+  closing: "Closing",
+};
+
+export type PhaseSignal =
+  // Asked Jordan something back
+  | "reciprocity"
+  // A real answer: a question, or a longer message
+  | "engaged"
+  // A minimal reply with nothing to build on
+  | "disengaged"
+  // Said goodbye after Jordan did
+  | "goodbye"
+  // Started leaving before Jordan did
+  | "learnerExit";
+
+export interface PhaseState {
+  phase: Phase;
+  // Learner messages so far, and how many there were when this phase began
+  learnerTurns: number;
+  enteredAt: number;
+  // Consecutive disengaged learner messages
+  disengagedStreak: number;
+}
+
+export const INITIAL_PHASE: PhaseState = { phase: "opening", learnerTurns: 0, enteredAt: 0, disengagedStreak: 0 };
+
+// Learner messages before reciprocity can end the opening
+const MIN_OPENING_TURNS = 2;
+// Disengaged messages in a row that start the wrap-up
+const DISENGAGED_TURNS = 2;
+const ENGAGED_WORDS = 8;
+const DISENGAGED_WORDS = 3;
+
+const ASKED_BACK = /\?|\b(what about you|how about you|hbu|wbu|and you)\b/i;
+const FAREWELL = /\b(bye|goodbye|see you|see ya|take care|catch you later|have a good (one|day|night)|nice (talking|chatting|meeting)|good (talking|chatting))\b/i;
+export const LEAVING = /\b(i (should|gotta|have to|need to|better) (go|get going|head out|run|take off|get back)|i'?ve got to (go|run)|gotta (go|run|get going)|i'?m heading out|i'?ll let you go)\b/i;
+
+/**
+ * What a learner message says about where the conversation is going.
+ * lastReply is Jordan's message the learner was answering.
+ */
+export function phaseSignals(userText: string, lastReply?: string): PhaseSignal[] {
+  const signals: PhaseSignal[] = [];
+  const words = userText.trim().split(/\s+/).filter(Boolean).length;
+  const askedBack = ASKED_BACK.test(userText);
+  const jordanSaidBye = !!lastReply && FAREWELL.test(lastReply) && !/\?/.test(lastReply);
+
+  if (askedBack) signals.push("reciprocity");
+  if (askedBack || words >= ENGAGED_WORDS) signals.push("engaged");
+  else if (words <= DISENGAGED_WORDS) signals.push("disengaged");
+
+  if (jordanSaidBye && FAREWELL.test(userText)) signals.push("goodbye");
+  else if (!jordanSaidBye && (LEAVING.test(userText) || FAREWELL.test(userText))) signals.push("learnerExit");
+
+  return signals;
+}
+
+/**
+ * Phase for Jordan's reply to the learner's next message. In exit practice
+ * (learnerLeads) the conversation never winds down on its own: it stays in
+ * balancing until the learner starts leaving.
+ */
+export function advancePhase(
+  state: PhaseState,
+  signals: PhaseSignal[],
+  bounds: PhaseThresholds,
+  learnerLeads = false
+): PhaseState {
+  const learnerTurns = state.learnerTurns + 1;
+  const disengagedStreak = signals.includes("disengaged") ? state.disengagedStreak + 1 : 0;
+  const stay: PhaseState = { ...state, learnerTurns, disengagedStreak };
+  const enter = (phase: Phase): PhaseState => ({ ...stay, phase, enteredAt: learnerTurns });
+
+  if (state.phase === "closing") return stay;
+  if (signals.includes("goodbye") || signals.includes("learnerExit")) return enter("closing");
+
+  switch (state.phase) {
+    case "opening":
+      if (learnerTurns > bounds.opening) return enter("balancing");
+      if (signals.includes("reciprocity") && learnerTurns >= MIN_OPENING_TURNS) return enter("balancing");
+      return stay;
+    case "balancing":
+      if (learnerLeads) return stay;
+      if (disengagedStreak >= DISENGAGED_TURNS) return enter("wrappingUp");
+      // Past the usual length, keep going only while the learner is engaged
+      if (learnerTurns > bounds.balancing + bounds.extension) return enter("wrappingUp");
+      if (learnerTurns > bounds.balancing && !signals.includes("engaged")) return enter("wrappingUp");
+      return stay;
+    case "wrappingUp":
+      // Wrapping up lasts as long as the scenario allows for it
+      if (learnerTurns - state.enteredAt >= bounds.wrappingUp - bounds.balancing) return enter("closing");
+      return stay;
+  }
+}
+
+/**
+ * Rebuild the phase from a transcript, for sessions that didn't save it
+ */
+export function replayPhase(
+  history: Array<{ role: string; content: string }>,
+  bounds: PhaseThresholds,
+  learnerLeads = false
+): PhaseState {
+  let state = INITIAL_PHASE;
+  let lastReply: string | undefined;
+  for (const turn of history) {
+    if (turn.role === "assistant") lastReply = turn.content;
+    if (turn.role === "user") state = advancePhase(state, phaseSignals(turn.content, lastReply), bounds, learnerLeads);
+  }
+  return state;
+}
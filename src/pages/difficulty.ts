@@ -0,0 +1,157 @@
+import { getTip, type TipId } from "./tipCatalog.ts";
+
+/**
+ * Difficulty Levels
+ *
+ * How much Jordan carries the conversation, and how much the coach steps
+ * in. Beginner is the original behavior: Jordan leads early on and tips
+ * come often. Advanced Jordan is briefer, a little distracted and leaves the
+ * learner to keep things going, and the coach mostly stays quiet.
+ */
+
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+
+export const DIFFICULTIES: Difficulty[] = ["beginner", "intermediate", "advanced"];
+
+export const DEFAULT_DIFFICULTY: Difficulty = "beginner";
+
+export interface CoachingThresholds {
+  // Most non-safety tips in a session
+  maxTips: number;
+  // No tip if one was shown within this many recent turns
+  tipSpacing: number;
+  // History length at which each milestone tip fires; omitted ones never do
+  milestones: Partial<Record<"milestoneAskBack" | "milestoneOpenEnded" | "milestoneWrapUp", number>>;
+}
+
+export interface DifficultyProfile {
+  id: Difficulty;
+  label: string;
+  // Shown in setup; {name} is the persona's name
+  description: string;
+  // How Jordan handles the opening phase
+  openingPhase: string;
+  // "MODE GUIDELINES" section of the system prompt, by conversation phase
+  guidelines: string;
+  replyLength: string;
+  // Last line of the system prompt
+  reminder: string;
+  coaching: CoachingThresholds;
+}
+
+const COMMON_GUIDELINES = `• Use everyday language that sounds natural and current - avoid formal/outdated words ("delved", "pondered", "endeavored", "whilst", "aforementioned")
+• Keep it casual-professional: "I'm really into that" not "I have delved into that extensively"`;
+
+const PROFILES: Record<Difficulty, DifficultyProfile> = {
+  beginner: {
+    id: "beginner",
+    label: "Beginner",
+    description: "{name} leads and asks plenty of questions. Frequent coaching.",
+    openingPhase: "Lead the conversation actively with questions and elaboration.",
+    guidelines: `**BEGINNER MODE GUIDELINES:**
+This learner is practicing basic social skills. Adapt your support based on conversation phase:
+
+• **CRITICAL: ALWAYS respond directly to what the user just said** - Acknowledge their answer before asking follow-ups
+• **Opening**: LEAD with 2-3 follow-up questions, elaborate on answers (2-4 sentences). Example: If they answer your book question with "I like fantasy", respond with "Oh nice! Fantasy's great. What series are you into?" NOT "Yeah, it really does. What about you?"
+• **Balancing**: BALANCE - share about yourself, model reciprocity, avoid interviewing
+• **Wrapping up**: SIGNAL wrap-up naturally - soft exits, friendly closures
+• **Closing**: END the conversation - say goodbye warmly but definitively
+${COMMON_GUIDELINES}`,
+    replyLength: "~2-4 sentences, 50-80 words total",
+    reminder: "remembering to LEAD the conversation for this beginner learner.",
+    coaching: {
+      maxTips: 4,
+      tipSpacing: 3,
+      milestones: { milestoneAskBack: 3, milestoneOpenEnded: 5, milestoneWrapUp: 8 },
+    },
+  },
+  intermediate: {
+    id: "intermediate",
+    label: "Intermediate",
+    description: "{name} shares the lead. You'll need to ask questions too.",
+    openingPhase: "Be warm and answer fully, but share the lead: at most one question per reply.",
+    guidelines: `**INTERMEDIATE MODE GUIDELINES:**
+This learner has the basics. Share the work of keeping the conversation going:
+
+• **CRITICAL: ALWAYS respond directly to what the user just said** - Acknowledge their answer before anything else
+• **Opening**: Answer with some detail (2-3 sentences) and ask at most ONE follow-up question per reply
+• **Balancing**: Share about yourself more than you ask. Leave some replies without a question so the learner has to pick up the thread
+• **Wrapping up**: SIGNAL wrap-up naturally - soft exits, friendly closures
+• **Closing**: END the conversation - say goodbye warmly but definitively
+${COMMON_GUIDELINES}`,
+    replyLength: "~2-3 sentences, 30-60 words total",
+    reminder: "sharing the lead with this learner rather than carrying the conversation.",
+    coaching: {
+      maxTips: 3,
+      tipSpacing: 5,
+      milestones: { milestoneOpenEnded: 5, milestoneWrapUp: 8 },
+    },
+  },
+  advanced: {
+    id: "advanced",
+    label: "Advanced",
+    description: "{name} is brief and a little distracted. Keeping it going is up to you.",
+    openingPhase: "Answer briefly and let the learner lead; only occasionally ask a question.",
+    guidelines: `**ADVANCED MODE GUIDELINES:**
+This learner is practicing carrying a conversation with someone who isn't doing the work for them:
+
+• **CRITICAL: ALWAYS respond directly to what the user just said** - but briefly
+• **Throughout**: Give short answers (1-2 sentences). Ask a question back only about every other reply, and never more than one. Don't rescue lulls: if the learner gives you nothing to respond to, give a short, polite reply and wait
+• **Mild distraction**: You're a little preoccupied (glancing at your phone, keeping an eye on the line, thinking about your errand). Let it show now and then ("Sorry, what was that?", "Hm, yeah.") without being rude
+• **Opening**: Friendly but reserved. Warm up if the learner asks good questions or finds common ground
+• **Balancing**: Open up more only when the learner shares and asks back
+• **Wrapping up**: SIGNAL wrap-up naturally - soft exits, friendly closures
+• **Closing**: END the conversation - say goodbye warmly but definitively
+${COMMON_GUIDELINES}`,
+    replyLength: "~1-2 sentences, 15-40 words total",
+    reminder: "letting this learner carry the conversation.",
+    coaching: {
+      maxTips: 2,
+      tipSpacing: 7,
+      milestones: { milestoneWrapUp: 8 },
+    },
+  },
+};
+
+export function isDifficulty(id: unknown): id is Difficulty {
+  return typeof id === "string" && (DIFFICULTIES as string[]).includes(id);
+}
+
+export function getDifficulty(id: Difficulty = DEFAULT_DIFFICULTY): DifficultyProfile {
+  return PROFILES[id] || PROFILES[DEFAULT_DIFFICULTY];
+}
+
+// Auto-adjust looks at the learner's last few messages, every few messages
+const ADJUST_WINDOW = 4;
+
+interface LearnerMessage {
+  content: string;
+  coachTipId?: TipId;
+}
+
+/**
+ * Level for the rest of the session when the learner asked for automatic
+ * difficulty. Every ADJUST_WINDOW learner messages it steps up if they needed
+ * no skill tips, asked questions back and gave real answers, and steps down if
+ * they kept needing tips or gave one-word replies. Returns the current level
+ * otherwise.
+ */
+export function adjustDifficulty(current: Difficulty, learnerMessages: LearnerMessage[]): Difficulty {
+  if (learnerMessages.length === 0 || learnerMessages.length % ADJUST_WINDOW !== 0) return current;
+
+  const recent = learnerMessages.slice(-ADJUST_WINDOW);
+  // Only tips about a skill count against the learner; safety tips and
+  // scheduled check-ins don't
+  const coached = recent.filter(m => m.coachTipId && getTip(m.coachTipId).theme).length;
+  const questions = recent.filter(m => /\?/.test(m.content)).length;
+  const avgWords = recent.reduce((sum, m) => sum + m.content.trim().split(/\s+/).length, 0) / recent.length;
+
+  const level = DIFFICULTIES.indexOf(current);
+  if (coached === 0 && questions >= 2 && avgWords >= 6) {
+    return DIFFICULTIES[Math.min(level + 1, DIFFICULTIES.length - 1)];
+  }
+  if (coached >= 2 || avgWords < 3) {
+    return DIFFICULTIES[Math.max(level - 1, 0)];
+  }
+  return current;
+}
@@ -0,0 +1,98 @@
+import {
+  TIER_1_CRISIS_KEYWORDS, TIER_2_DISTRESS_KEYWORDS, TIER_3_STRESS_KEYWORDS,
+  type DistressSeverity
+} from "./constants.ts";
+import { keywordMatcher, type KeywordMatch } from "./keywordMatcher.ts";
+
+/**
+ * Distress Assessment
+ *
+ * The one place that decides how distressed a learner's message reads. The
+ * crisis pipeline, coaching suppression and the stall nudge all read from
+ * assessDistress, so they can't disagree about what counts as distress.
+ *
+ * Tier 1: Explicit crisis language → level 'high', immediate LLM analysis
+ * Tier 2: Ambiguous distress → level 'low' once signals accumulate (2+ messages)
+ * Tier 3: Everyday stress → never escalates, but pauses skill-building coaching
+ */
+
+export type DistressTier = 1 | 2 | 3;
+
+export interface DistressMatch extends KeywordMatch {
+  tier: DistressTier;
+}
+
+export interface DistressAssessment {
+  // Crisis-pipeline level for this message (see tiers above)
+  level: DistressSeverity;
+  // Strongest tier matched in this message, null if none
+  tier: DistressTier | null;
+  // Every keyword hit, strongest tier first, with spans in the original text
+  matches: DistressMatch[];
+  trajectory: {
+    // Earlier user messages with a Tier 2 signal
+    tier2Count: number;
+    // User messages with any distress in the last 5 turns, this one included
+    recentCount: number;
+    // The conversation has turned heavy (2+ recent distressed messages)
+    descending: boolean;
+  };
+}
+
+type HistoryTurn = { role: string; content: string };
+
+const tierMatchers: Array<[DistressTier, ReturnType<typeof keywordMatcher>]> = [
+  [1, keywordMatcher(TIER_1_CRISIS_KEYWORDS)],
+  [2, keywordMatcher(TIER_2_DISTRESS_KEYWORDS)],
+  [3, keywordMatcher(TIER_3_STRESS_KEYWORDS)],
+];
+
+export function distressMatches(text: string): DistressMatch[] {
+  return tierMatchers.flatMap(([tier, matcher]) => matcher.find(text).map(m => ({ ...m, tier })));
+}
+
+/**
+ * Strongest distress tier in a single message, null if none
+ */
+export function distressTier(text: string): DistressTier | null {
+  for (const [tier, matcher] of tierMatchers) {
+    if (matcher.test(text)) return tier;
+  }
+  return null;
+}
+
+export function hasDistress(text: string): boolean {
+  return distressTier(text) !== null;
+}
+
+/**
+ * Assess the learner's latest message in the context of the conversation so far
+ * @param text Current user message
+ * @param history Earlier turns (any roles; only user turns are assessed)
+ */
+export function assessDistress(text: string, history: HistoryTurn[] = []): DistressAssessment {
+  const matches = distressMatches(text);
+  const tier = matches.length ? matches[0].tier : null;
+
+  const userHistory = history.filter(h => h.role === "user");
+  // Only count once per message
+  const tier2Count = userHistory.filter(h => tierMatchers[1][1].test(h.content)).length;
+
+  const recent = [...history.slice(-5), { role: "user", content: text }];
+  const recentCount = recent.filter(h => h.role === "user" && hasDistress(h.content)).length;
+
+  let level: DistressSeverity = "none";
+  if (tier === 1) {
+    level = "high";
+  } else if (tier === 2 && tier2Count + 1 >= 2) {
+    // 2nd+ Tier 2 signal in the conversation
+    level = "low";
+  }
+
+  return {
+    level,
+    tier,
+    matches,
+    trajectory: { tier2Count, recentCount, descending: recentCount >= 2 },
+  };
+}
@@ -0,0 +1,86 @@
+import { LEAVING, type PhaseState } from "./conversationPhase.ts";
+import type { TipId } from "./tipCatalog.ts";
+
+/**
+ * Exit Grading
+ *
+ * In exit practice Jordan never ends the conversation; the learner has to.
+ * Once they have, their exit is graded on the three parts of a polite
+ * goodbye: a pre-closing signal ("I should get going"), appreciation ("it was
+ * nice talking to you") and a farewell ("see you around!"). The learner gets
+ * one piece of feedback, for the most important missing part.
+ */
+
+export interface ExitGrade {
+  // Signaled they were leaving before (or while) saying goodbye
+  preClosing: boolean;
+  // Thanked Jordan or said they enjoyed the chat
+  appreciation: boolean;
+  farewell: boolean;
+  // Parts present, 0-3
+  score: number;
+  // Feedback shown to the learner
+  tipId: TipId;
+}
+
+const PRE_CLOSING = [
+  LEAVING,
+  /\b(anyway|anyways|it'?s getting late|before i go|i'?ll let you get back)\b|\bwell,/i,
+  /\bi('ve got| have| got) (class|a class|work|practice|a meeting|somewhere to be)\b/i,
+];
+const APPRECIATION = /\b(thanks|thank you|(nice|great|good|fun|lovely) (talking|chatting|meeting you|to meet you)|enjoyed|was (nice|great|fun)|glad (we|i) (talked|chatted|met))\b/i;
+const FAREWELL = /\b(bye|goodbye|see you|see ya|take care|catch you later|have a (good|great) (one|day|night|week|weekend)|later!)/i;
+
+// Missing parts in order of importance; a goodbye with no farewell isn't one
+const FEEDBACK: Array<[keyof Omit<ExitGrade, "score" | "tipId">, TipId]> = [
+  ["farewell", "exitNoFarewell"],
+  ["preClosing", "exitNoPreClosing"],
+  ["appreciation", "exitNoAppreciation"],
+];
+
+/**
+ * Grade the learner's exit once it's complete: on the message where they
+ * start leaving if it already says goodbye, otherwise on the message after.
+ * learnerMessages are all of the learner's messages, the latest last; phase
+ * is the phase Jordan is replying in. Returns undefined when there is
+ * nothing to grade yet.
+ */
+export function gradeExit(learnerMessages: string[], phase: PhaseState): ExitGrade | undefined {
+  if (phase.phase !== "closing") return undefined;
+
+  // Index of the message that moved the conversation to closing
+  const exitIndex = phase.enteredAt - 1;
+  const sinceExit = phase.learnerTurns - phase.enteredAt;
+  const latest = learnerMessages[learnerMessages.length - 1] ?? "";
+  const ready =
+    (sinceExit === 0 && FAREWELL.test(latest)) ||
+    (sinceExit === 1 && !FAREWELL.test(learnerMessages[exitIndex] ?? ""));
+  if (!ready) return undefined;
+
+  // The message before the exit counts too: "Anyway, I have class soon"
+  return gradeExitText(learnerMessages.slice(Math.max(0, exitIndex - 1)).join("\n"));
+}
+
+// The learner is leaving or saying goodbye
+export function isExitMessage(text: string): boolean {
+  return LEAVING.test(text) || FAREWELL.test(text);
+}
+
+/**
+ * Grade a goodbye on its own, e.g. the last learner messages of a stored
+ * transcript
+ */
+export function gradeExitText(exit: string): ExitGrade {
+  const parts = {
+    preClosing: PRE_CLOSING.some(p => p.test(exit)),
+    appreciation: APPRECIATION.test(exit),
+    farewell: FAREWELL.test(exit),
+  };
+  const missing = FEEDBACK.find(([part]) => !parts[part]);
+
+  return {
+    ...parts,
+    score: Object.values(parts).filter(Boolean).length,
+    tipId: missing ? missing[1] : "exitComplete",
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Keyword Matcher
+ *
+ * Token-aware matching for the guardrail keyword lists. Text and keywords go
+ * through the same normalization, so "K1LL   mys3lf", "suïcidal", "d.i.e" and
+ * "k m s" match their plain spellings while "skills", "Sussex" and "trumpet"
+ * no longer match "kms", "sex" and "trump".
+ *
+ * Keyword syntax:
+ *   "kill myself"        phrase; words may be joined or separated by spaces/punctuation
+ *   "suicid*"            prefix: any word starting with "suicid"
+ *   "better off ... dead" gap: up to 3 other words between the two parts
+ *
+ * A letter in a keyword also matches a stretched run of itself ("die" matches
+ * "dieeee"); doubled letters must stay at least doubled, so "off myself"
+ * does not match "of myself".
+ */
+
+export interface KeywordMatch {
+  // The keyword as written in the list
+  keyword: string;
+  // Span of the match in the original text
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface KeywordMatcher {
+  // All matches, at most one per keyword, in list order
+  find(text: string): KeywordMatch[];
+  // First keyword (in list order) that matches
+  first(text: string): KeywordMatch | undefined;
+  test(text: string): boolean;
+}
+
+const ZERO_WIDTH_RE = /[\u200B-\u200D\u2060\uFEFF\u00AD]/;
+const COMBINING_MARK_RE = /[\u0300-\u036f]/g;
+const LETTER_RE = /[a-z]/;
+const INTRAWORD_PUNCTUATION_RE = /[.\-_*'’`]/;
+const GAP_WORDS = 3;
+
+// Leetspeak substitutions, applied only between two letters ("k1ll", "d!e")
+const LEET: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t",
+  "@": "a", "$": "s", "!": "i", "|": "l",
+};
+
+export interface NormalizedText {
+  text: string;
+  // offsets[i] = index in the original text of normalized character i
+  offsets: number[];
+}
+
+/**
+ * Fold text to lowercase ASCII-ish form for matching, keeping a map back to
+ * the original positions: Unicode compatibility folding and diacritics,
+ * zero-width characters, intraword leetspeak and punctuation, and runs of
+ * spaced-out single letters ("k m s" → "kms").
+ */
+export function normalizeText(input: string): NormalizedText {
+  // 1) Unicode folding, per character so offsets survive
+  let chars: string[] = [];
+  let offsets: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ZERO_WIDTH_RE.test(ch)) continue;
+    const folded = ch.normalize("NFKD").replace(COMBINING_MARK_RE, "").toLowerCase();
+    for (const f of folded) {
+      chars.push(f);
+      offsets.push(i);
+    }
+  }
+
+  const isLetter = (j: number) => j >= 0 && j < chars.length && LETTER_RE.test(chars[j]);
+
+  // 2) Leetspeak between letters
+  chars = chars.map((ch, j) => (LEET[ch] && isLetter(j - 1) && isLetter(j + 1) ? LEET[ch] : ch));
+
+  // 3) Punctuation inside words ("d.i.e", "un-aliving", "can't")
+  const kept: number[] = [];
+  chars.forEach((ch, j) => {
+    if (INTRAWORD_PUNCTUATION_RE.test(ch) && isLetter(j - 1) && isLetter(j + 1)) return;
+    kept.push(j);
+  });
+  chars = kept.map(j => chars[j]);
+  offsets = kept.map(j => offsets[j]);
+
+  // 4) Join runs of 3+ spaced-out single letters ("h o p e l e s s")
+  const text = chars.join("");
+  const drop = new Set<number>();
+  for (const run of text.matchAll(/(?<![a-z])[a-z](?![a-z])(?:\s+[a-z](?![a-z])){2,}/g)) {
+    for (let j = run.index!; j < run.index! + run[0].length; j++) {
+      if (/\s/.test(text[j])) drop.add(j);
+    }
+  }
+
+  return {
+    text: chars.filter((_, j) => !drop.has(j)).join(""),
+    offsets: offsets.filter((_, j) => !drop.has(j)),
+  };
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "kill" → "k+i+l{2,}"
+function wordPattern(word: string): string {
+  return word.replace(/([a-z])\1*|[^a-z]+/g, run =>
+    LETTER_RE.test(run[0])
+      ? run.length === 1 ? `${run}+` : `${run[0]}{${run.length},}`
+      : escapeRegExp(run)
+  );
+}
+
+/**
+ * Compile one keyword to a regex over normalized text
+ */
+export function keywordPattern(keyword: string): RegExp {
+  const separator = "[^a-z0-9]*";
+  const gap = `(?:[^a-z0-9]+[a-z0-9]+){0,${GAP_WORDS}}[^a-z0-9]+`;
+
+  const parts = keyword.split("...").map(part =>
+    normalizeText(part).text.split(/\s+/).filter(Boolean).map(token =>
+      token.endsWith("*") ? `${wordPattern(token.slice(0, -1))}[a-z]*` : wordPattern(token)
+    ).join(separator)
+  );
+
+  return new RegExp(`(?<![a-z0-9])${parts.join(gap)}(?![a-z0-9])`);
+}
+
+/**
+ * Build a matcher for a keyword list. Patterns are compiled once, so build
+ * matchers at module level rather than per call.
+ */
+export function keywordMatcher(keywords: readonly string[]): KeywordMatcher {
+  const compiled = keywords.map(keyword => ({ keyword, re: keywordPattern(keyword) }));
+
+  const matchAll = (text: string, limit: number): KeywordMatch[] => {
+    const normalized = normalizeText(text);
+    const matches: KeywordMatch[] = [];
+    for (const { keyword, re } of compiled) {
+      const m = re.exec(normalized.text);
+      if (!m) continue;
+
+      const start = normalized.offsets[m.index];
+      const end = normalized.offsets[m.index + m[0].length - 1] + 1;
+      matches.push({ keyword, start, end, text: text.slice(start, end) });
+      if (matches.length >= limit) break;
+    }
+    return matches;
+  };
+
+  return {
+    find: text => matchAll(text, Infinity),
+    first: text => matchAll(text, 1)[0],
+    test: text => matchAll(text, 1).length > 0,
+  };
+}
@@ -0,0 +1,192 @@
+import type { CelebratedBehaviors } from "./coachingEngine.ts";
+import { getTip, isTipId, type TipTheme } from "./tipCatalog.ts";
+
+/**
+ * Learner Profile
+ *
+ * Per-skill mastery derived from a learner's past sessions, so coaching can
+ * be progressive across visits: tips for a mastered skill stop, and behaviors
+ * already celebrated aren't celebrated again. Everything here is derived from
+ * saved transcripts (coach tips are catalog IDs), so the profile can always
+ * be rebuilt from scratch. When retention purges a transcript, the session's
+ * tally is kept in sessions.skill_tally and counts in its place.
+ *
+ * Each practiced session scores every skill: 1 if no tip for that skill was
+ * needed, 0.5 if there were tips but also a celebration in that skill, 0
+ * otherwise. A skill's level is a moving average of those scores, so recent
+ * sessions count most and a few clean sessions in a row mean mastery. A
+ * skill also needs at least one celebration before it counts as mastered,
+ * so one that simply never came up isn't.
+ */
+
+export type Skill = TipTheme;
+
+export const SKILLS: Skill[] = ["reciprocity", "shortAnswers", "notListening", "exitCues", "interviewing"];
+
+export const SKILL_LABELS: Record<Skill, string> = {
+  reciprocity: "Asking questions back",
+  shortAnswers: "Giving fuller answers",
+  notListening: "Active listening",
+  exitCues: "Reading exit cues",
+  interviewing: "Balancing asking and sharing",
+};
+
+// Sessions with fewer learner messages don't count as practice
+const MIN_PRACTICE_TURNS = 3;
+// Weight of the newest session in a skill's level
+const LEVEL_WEIGHT = 0.4;
+export const MASTERY_LEVEL = 0.8;
+const MIN_MASTERY_SESSIONS = 3;
+
+export interface SkillProgress {
+  // 0..1 moving average of session scores
+  level: number;
+  // Practiced sessions counted
+  sessions: number;
+  // Tips and celebrations in this skill across those sessions
+  tips: number;
+  wins: number;
+  mastered: boolean;
+}
+
+// Skill levels after one session, for growth charts
+export interface ProgressPoint {
+  sessionId: string;
+  startedAt: string;
+  levels: Record<Skill, number>;
+}
+
+export interface LearnerProfile {
+  sessionCount: number;
+  skills: Record<Skill, SkillProgress>;
+  earnedBehaviors: (keyof CelebratedBehaviors)[];
+  progress: ProgressPoint[];
+}
+
+// A saved session as read back from the sessions table
+export interface SessionEvidence {
+  id: string;
+  startedAt: string;
+  transcript: unknown;
+  // sessions.skill_tally, set when the transcript was purged
+  tally?: unknown;
+}
+
+const emptySkill = (): SkillProgress => ({ level: 0, sessions: 0, tips: 0, wins: 0, mastered: false });
+
+export function emptyLearnerProfile(): LearnerProfile {
+  return {
+    sessionCount: 0,
+    skills: Object.fromEntries(SKILLS.map(skill => [skill, emptySkill()])) as Record<Skill, SkillProgress>,
+    earnedBehaviors: [],
+    progress: [],
+  };
+}
+
+// What one session contributes to the profile
+export interface SessionTally {
+  userTurns: number;
+  tips: Record<Skill, number>;
+  wins: Record<Skill, number>;
+  celebrated: (keyof CelebratedBehaviors)[];
+}
+
+const zeroCounts = () => Object.fromEntries(SKILLS.map(skill => [skill, 0])) as Record<Skill, number>;
+
+export function tallySession(transcript: unknown): SessionTally {
+  const tally: SessionTally = { userTurns: 0, tips: zeroCounts(), wins: zeroCounts(), celebrated: [] };
+  if (!Array.isArray(transcript)) return tally;
+
+  for (const turn of transcript) {
+    if (turn?.role === "user") tally.userTurns++;
+    const id = turn?.coachTip?.id;
+    if (!isTipId(id)) continue;
+
+    const tip = getTip(id);
+    if (turn.role === "user" && tip.theme) {
+      tally.tips[tip.theme]++;
+    } else if (turn.role === "coach" && tip.category === "celebration") {
+      // Celebration tip IDs are the behavior keys
+      tally.celebrated.push(id as keyof CelebratedBehaviors);
+      if (tip.theme) tally.wins[tip.theme]++;
+    }
+  }
+  return tally;
+}
+
+// A tally read back from jsonb; null if there isn't one
+function readTally(value: unknown): SessionTally | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<Record<keyof SessionTally, unknown>>;
+  const counts = (v: unknown) => {
+    const out = zeroCounts();
+    for (const skill of SKILLS) out[skill] = Number((v as Record<string, unknown> | undefined)?.[skill]) || 0;
+    return out;
+  };
+  return {
+    userTurns: Number(raw.userTurns) || 0,
+    tips: counts(raw.tips),
+    wins: counts(raw.wins),
+    celebrated: Array.isArray(raw.celebrated)
+      ? raw.celebrated.filter(isTipId) as (keyof CelebratedBehaviors)[]
+      : [],
+  };
+}
+
+/**
+ * Build a profile from a learner's sessions, oldest first
+ */
+export function deriveLearnerProfile(sessions: SessionEvidence[]): LearnerProfile {
+  const profile = emptyLearnerProfile();
+  const earned = new Set<keyof CelebratedBehaviors>();
+
+  for (const session of sessions) {
+    const tally = readTally(session.tally) ?? tallySession(session.transcript);
+    tally.celebrated.forEach(behavior => earned.add(behavior));
+    if (tally.userTurns < MIN_PRACTICE_TURNS) continue;
+
+    profile.sessionCount++;
+    for (const skill of SKILLS) {
+      const progress = profile.skills[skill];
+      const score = tally.tips[skill] === 0 ? 1 : tally.wins[skill] > 0 ? 0.5 : 0;
+      progress.level += LEVEL_WEIGHT * (score - progress.level);
+      progress.sessions++;
+      progress.tips += tally.tips[skill];
+      progress.wins += tally.wins[skill];
+      progress.mastered =
+        progress.level >= MASTERY_LEVEL && progress.sessions >= MIN_MASTERY_SESSIONS && progress.wins > 0;
+    }
+    profile.progress.push({
+      sessionId: session.id,
+      startedAt: session.startedAt,
+      levels: Object.fromEntries(SKILLS.map(skill => [skill, Math.round(profile.skills[skill].level * 100) / 100])) as Record<Skill, number>,
+    });
+  }
+
+  profile.earnedBehaviors = [...earned];
+  return profile;
+}
+
+// A learner_profiles row (jsonb columns arrive untyped)
+export interface LearnerProfileRow {
+  session_count: number;
+  skills: unknown;
+  earned_behaviors: string[];
+  progress: unknown;
+}
+
+export function profileFromRow(row: LearnerProfileRow | null): LearnerProfile {
+  const profile = emptyLearnerProfile();
+  if (!row) return profile;
+
+  return {
+    sessionCount: row.session_count,
+    skills: { ...profile.skills, ...(row.skills as Partial<Record<Skill, SkillProgress>>) },
+    earnedBehaviors: row.earned_behaviors as (keyof CelebratedBehaviors)[],
+    progress: Array.isArray(row.progress) ? row.progress : [],
+  };
+}
+
+export function masteredSkills(profile: LearnerProfile): Skill[] {
+  return SKILLS.filter(skill => profile.skills[skill]?.mastered);
+}
@@ -0,0 +1,79 @@
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { profileFromRow, type LearnerProfile } from "./learnerProfile";
+
+/**
+ * Learner identity. Every visitor gets an anonymous Supabase user when they
+ * start a conversation, which is what owns their session rows (RLS checks
+ * auth.uid()). Tracking progress is opt-in on top of that: it flags the user
+ * as a learner, and adding an email upgrades that same user (via a magic
+ * link), so their history follows them to other devices.
+ */
+
+const progressUrl = () => `${window.location.origin}/progress`;
+
+/**
+ * The signed-in user, signing in anonymously if nobody is. Throws if
+ * anonymous sign-in fails.
+ */
+export async function ensureIdentity(): Promise<User> {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session.user;
+
+  const { data: signedIn, error } = await supabase.auth.signInAnonymously();
+  if (error || !signedIn.user) throw error || new Error("Anonymous sign-in failed");
+  return signedIn.user;
+}
+
+// Email users always track progress; anonymous users only once they opt in
+const tracksProgress = (user: User) => !user.is_anonymous || user.user_metadata?.tracks_progress === true;
+
+/**
+ * The signed-in user if they track progress, null otherwise
+ */
+export async function currentLearner(): Promise<User | null> {
+  const { data } = await supabase.auth.getSession();
+  const user = data.session?.user;
+  return user && tracksProgress(user) ? user : null;
+}
+
+export async function startTrackingProgress(): Promise<User> {
+  await ensureIdentity();
+  const { data, error } = await supabase.auth.updateUser({ data: { tracks_progress: true } });
+  if (error || !data.user) throw error || new Error("Couldn't start tracking");
+  return data.user;
+}
+
+/**
+ * Attach an email to the current anonymous learner. Supabase sends a
+ * confirmation link; the account becomes permanent once it's clicked.
+ */
+export async function linkLearnerEmail(email: string) {
+  const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: progressUrl() });
+  if (error) throw error;
+}
+
+// Magic-link sign-in for a learner who already added an email elsewhere
+export async function signInLearner(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: progressUrl(), shouldCreateUser: false },
+  });
+  if (error) throw error;
+}
+
+// The next conversation starts a fresh anonymous identity
+export async function stopTrackingProgress() {
+  await supabase.auth.signOut();
+}
+
+export async function loadLearnerProfile(learnerId: string): Promise<LearnerProfile> {
+  const { data, error } = await supabase
+    .from("learner_profiles")
+    .select("session_count, skills, earned_behaviors, progress")
+    .eq("user_id", learnerId)
+    .maybeSingle();
+
+  if (error) console.error("Failed to load learner profile:", error);
+  return profileFromRow(data);
+}
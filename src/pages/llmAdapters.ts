@@ -1,46 +1,53 @@
+import type { Scene } from "./constants.ts";
+
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
   content: string;
 }
 
-export async function lovableChat(messages: ChatMessage[], opts: any): Promise<string> {
-  const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/jordan-chat`;
-  
-  try {
-    const resp = await fetch(CHAT_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      },
-      body: JSON.stringify({ messages, opts }),
-    });
-
-    if (!resp.ok) {
-      const error = await resp.text();
-      console.error("Lovable chat error:", error);
-      throw new Error("Chat failed");
-    }
-
-    const data = await resp.json();
-    return data.reply || "Let's keep chatting — what's on your mind?";
-  } catch (e) {
-    console.error("Lovable adapter error:", e);
-    throw e;
-  }
+/**
+ * Per-call options. model/temperature/max_tokens fall back to the
+ * provider's defaults when omitted.
+ */
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  scene?: Scene;
+  interlocutor?: string;
 }
 
-export async function openaiChat(messages: ChatMessage[], opts: any): Promise<string> {
-  // Placeholder for OpenAI integration
-  throw new Error("OpenAI adapter not configured");
+export interface ChatAdapter {
+  id: string;
+  chat(messages: ChatMessage[], opts: ChatOptions): Promise<string>;
+  // Optional: yield reply text deltas as they arrive
+  stream?(messages: ChatMessage[], opts: ChatOptions): AsyncGenerator<string>;
 }
 
-export async function mockChat(messages: ChatMessage[]): Promise<string> {
-  const responses = [
-    "That's cool! What got you into that?",
-    "Nice! I've been meaning to check that out.",
-    "Sounds interesting — any favorites?",
-    "Oh yeah? What do you think so far?",
-  ];
-  return responses[Math.floor(Math.random() * responses.length)];
+/**
+ * Yield the data payload of each server-sent event until the stream ends or
+ * sends [DONE]
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE events are newline-delimited; keep any partial line for the next chunk
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+      yield payload;
+    }
+  }
 }
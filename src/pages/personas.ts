@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+/**
+ * Personas
+ *
+ * Who the learner is talking to: name, pronouns, age, interests, temperament
+ * and what they're visibly wearing or carrying. A persona travels with the
+ * learner across scenes; the scenario pack supplies the setting. The system
+ * prompt, the scene-context coach message, the context-clue celebration and
+ * the chat header all read from the persona, so practicing with a different
+ * personality is one new entry in the registry.
+ *
+ * Scenario text can refer to the persona as {name}, e.g. "Hey! I'm {name}."
+ */
+
+export const contextClueSchema = z.object({
+  // Phrase that completes "You are ..." / "{name} is ...", e.g. "wearing a Nirvana band shirt"
+  description: z.string().min(1),
+  // Words that show the learner picked up on this clue
+  keywords: z.array(z.string().min(1)).default([]),
+});
+
+export const TEMPERAMENTS = ["warm", "shy", "chatty", "distracted"] as const;
+export type Temperament = typeof TEMPERAMENTS[number];
+
+// How each temperament plays out, for the system prompt
+const TEMPERAMENT_GUIDELINES: Record<Temperament, string> = {
+  warm: "Friendly and easygoing. You're happy to chat and you show genuine interest in the learner.",
+  shy: "A bit reserved at first. Your early answers are short and you rarely bring up new topics yourself, but you warm up and share more when the learner shows interest in you.",
+  chatty: "Talkative and enthusiastic. You tend to share stories and tangents about your interests, so the learner may need to find a natural moment to get a word in or steer the conversation.",
+  distracted: "Friendly but preoccupied: you're keeping an eye on your phone and the time. Now and then you lose the thread (\"Sorry, what was that?\") and the learner has to re-engage you.",
+};
+
+export const personaSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  name: z.string().min(1),
+  // Default pronouns; the learner can pick others in setup
+  pronouns: z.enum(["he", "she", "they"]),
+  // e.g. "early 20s"
+  ageRange: z.string().min(1),
+  // One sentence about them, e.g. "a second-year student who works at the campus library"
+  background: z.string().min(1),
+  interests: z.array(z.string().min(1)).min(1),
+  temperament: z.enum(TEMPERAMENTS),
+  // Visible in every scene; scenario packs can add scene-specific ones
+  contextClues: z.array(contextClueSchema).default([]),
+  // Tailwind classes for the chat header avatar
+  avatarClassName: z.string().default("from-primary/20 to-accent/20 text-primary"),
+});
+
+export type ContextClue = z.infer<typeof contextClueSchema>;
+export type Persona = z.infer<typeof personaSchema>;
+
+const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: "jordan",
+    name: "Jordan",
+    pronouns: "they",
+    ageRange: "early 20s",
+    background: "A third-year student who likes meeting new people between classes.",
+    interests: ["sci-fi novels", "90s rock", "Denver Broncos football"],
+    temperament: "warm",
+    contextClues: [
+      {
+        description: "wearing a Nirvana band shirt",
+        keywords: [
+          "nirvana", "band", "music", "shirt", "t-shirt", "tee",
+          "grunge", "90s", "nineties", "kurt cobain", "rock", "alternative",
+          "concert", "tour", "album", "song", "listen", "favorite band",
+        ],
+      },
+      {
+        description: "carrying a coffee tumbler with the Denver Broncos football logo",
+        keywords: [
+          "broncos", "denver", "football", "nfl", "sports", "tumbler", "mug", "cup", "logo",
+          "game", "season", "playoffs", "team", "fan", "watch the game",
+        ],
+      },
+    ],
+    avatarClassName: "from-primary/20 to-accent/20 text-primary",
+  },
+  {
+    id: "maya",
+    name: "Maya",
+    pronouns: "she",
+    ageRange: "18",
+    background: "A first-year student who moved from out of state and doesn't know many people yet.",
+    interests: ["film photography", "cozy video games", "hiking"],
+    temperament: "shy",
+    contextClues: [
+      {
+        description: "carrying an old film camera on a strap around the neck",
+        keywords: [
+          "camera", "film", "photo", "photos", "photography", "pictures", "shoot", "lens",
+          "vintage", "analog", "develop",
+        ],
+      },
+    ],
+    avatarClassName: "from-emerald-500/20 to-teal-500/20 text-emerald-600",
+  },
+  {
+    id: "dev",
+    name: "Dev",
+    pronouns: "he",
+    ageRange: "mid 20s",
+    background: "A grad student and part-time line cook who will talk to anyone about food.",
+    interests: ["cooking", "basketball", "podcasts"],
+    temperament: "chatty",
+    contextClues: [
+      {
+        description: "wearing a Chicago Bulls cap",
+        keywords: [
+          "bulls", "chicago", "cap", "hat", "basketball", "nba", "game", "team", "fan",
+        ],
+      },
+    ],
+    avatarClassName: "from-orange-500/20 to-red-500/20 text-orange-600",
+  },
+  {
+    id: "riley",
+    name: "Riley",
+    pronouns: "they",
+    ageRange: "early 20s",
+    background: "A busy student juggling classes, a campus job and a running club.",
+    interests: ["running", "true crime podcasts", "thrift shopping"],
+    temperament: "distracted",
+    contextClues: [
+      {
+        description: "wearing running shoes, with one earbud still in",
+        keywords: [
+          "run", "running", "runner", "shoes", "sneakers", "marathon", "jog", "earbud", "earbuds",
+          "listening", "podcast",
+        ],
+      },
+    ],
+    avatarClassName: "from-sky-500/20 to-indigo-500/20 text-sky-600",
+  },
+];
+
+export const DEFAULT_PERSONA_ID = "jordan";
+
+// --- Registry ---
+const registry = new Map<string, Persona>();
+
+/**
+ * Add or replace a persona. Input is validated, so personas loaded from JSON
+ * are safe to register directly.
+ */
+export function registerPersona(persona: unknown): Persona {
+  const parsed = personaSchema.parse(persona);
+  registry.set(parsed.id, parsed);
+  return parsed;
+}
+
+export function listPersonas(): Persona[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Look up a persona by id, falling back to Jordan for unknown ids (e.g.
+ * sessions logged before personas existed)
+ */
+export function getPersona(id: string = DEFAULT_PERSONA_ID): Persona {
+  return registry.get(id) || registry.get(DEFAULT_PERSONA_ID)!;
+}
+
+BUILT_IN_PERSONAS.forEach(registerPersona);
+
+// --- Helpers ---
+
+/**
+ * Join phrases into one clause: "a, b and c"
+ */
+export function joinList(parts: string[]): string {
+  if (parts.length <= 1) return parts.join("");
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
+
+/**
+ * Fill {name} placeholders in scenario text
+ */
+export function personalize(text: string, persona: Persona): string {
+  return text.replace(/\{name\}/g, persona.name);
+}
+
+/**
+ * Who the conversation partner is, for the system prompt
+ */
+export function personaPrompt(persona: Persona): string {
+  return `**Who you are:** ${persona.name}, ${persona.ageRange}. ${persona.background} You're into ${joinList(persona.interests)}; bring these up naturally when they fit, and never claim interests that contradict them.
+
+**Temperament:** ${TEMPERAMENT_GUIDELINES[persona.temperament]}`;
+}
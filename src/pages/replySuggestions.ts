@@ -0,0 +1,115 @@
+import { z } from "zod";
+import type { ChatMessage } from "./llmAdapters.ts";
+import { screenForDistress } from "./turnPipeline.ts";
+import { getTip, renderTip, type TipCategory, type TipId } from "./tipCatalog.ts";
+import { learnerSceneContext, type ScenarioPack } from "./scenarios.ts";
+import type { Persona } from "./personas.ts";
+
+/**
+ * Reply Suggestions
+ *
+ * "How could I say that better?": on request, the suggest-reply function asks
+ * the LLM for two or three other ways the learner could have phrased one of
+ * their messages, grounded in the conversation so far, with a short
+ * explanation tied to a tip category. Suggestions are coaching, so they
+ * follow the same rule as coaching tips: a message that shows any distress,
+ * went to crisis analysis or got a safety tip never gets them.
+ */
+
+// Categories a suggestion can be about: the skill-building ones
+export const SUGGESTION_CATEGORIES = ["critical", "flow", "skill"] as const;
+export type SuggestionCategory = Extract<TipCategory, typeof SUGGESTION_CATEGORIES[number]>;
+
+export const SUGGESTION_CATEGORY_LABELS: Record<SuggestionCategory, string> = {
+  critical: "Conversation basics",
+  flow: "Keeping it flowing",
+  skill: "Polishing your skills",
+};
+
+const replySuggestionsSchema = z.object({
+  suggestions: z.array(z.string().trim().min(1).max(300)).min(2).max(3),
+  explanation: z.string().trim().min(1).max(400),
+  category: z.enum(SUGGESTION_CATEGORIES),
+});
+
+export type ReplySuggestions = z.infer<typeof replySuggestionsSchema>;
+
+export interface SuggestionTurn {
+  role: "user" | "assistant" | "coach";
+  content: string;
+  // Coach tip shown with a user message
+  coachTipId?: TipId;
+}
+
+/**
+ * Whether the learner message at index may get suggestions. The server
+ * also checks the turn's stored crisis verdict before generating any.
+ */
+export function suggestionsAllowed(turns: SuggestionTurn[], index: number): boolean {
+  const turn = turns[index];
+  if (!turn || turn.role !== "user") return false;
+  if (turn.coachTipId && getTip(turn.coachTipId).category === "safety") return false;
+
+  const screening = screenForDistress(turn.content, turns.slice(0, index));
+  return !screening.shouldAnalyze && screening.distress.tier === null;
+}
+
+/**
+ * Prompt for suggestions on the learner message at index: the scene, the
+ * conversation up to and including the partner's reply to it, and the tip
+ * the learner was shown, if any
+ */
+export function suggestionMessages(turns: SuggestionTurn[], index: number, pack: ScenarioPack, persona: Persona): ChatMessage[] {
+  const target = turns[index];
+  const nextReply = turns.slice(index + 1).find(t => t.role !== "coach");
+  const transcript = [...turns.slice(0, index), ...(nextReply?.role === "assistant" ? [target, nextReply] : [target])]
+    .filter(t => t.role !== "coach")
+    .map(t => (t === target ? `>>> Learner: ${t.content}` : `${t.role === "user" ? "Learner" : persona.name}: ${t.content}`))
+    .join("\n");
+  const shownTip = target.coachTipId ? renderTip(target.coachTipId, { vars: { name: persona.name } }) : "";
+
+  const systemPrompt = `You are a friendly conversation coach in a small-talk practice app for college students with social anxiety.
+
+SCENE: ${learnerSceneContext(pack, persona, "neutral")}
+
+The learner is practicing casual conversation with ${persona.name}. They want to know how they could have phrased the message marked ">>>" better.
+
+CONVERSATION:
+${transcript}
+${shownTip ? `\nTIP THE LEARNER WAS SHOWN FOR THIS MESSAGE: ${shownTip}\n` : ""}
+Write 2 or 3 alternative phrasings of the marked message:
+- Keep the learner's meaning and anything they shared; don't invent facts about them beyond a short [placeholder] they can fill in
+- Respond to what ${persona.name} actually said before it
+- Sound like a relaxed 18-24 year old: short, casual, one to three sentences
+- Stay on light small-talk topics; never mention therapy, crisis lines, or personal contact details
+
+Then explain in one or two sentences why they work, speaking to the learner as "you", and pick the category the explanation is about:
+- "critical": a conversation basic was missed (an unanswered question, no self-introduction, only greeting)
+- "flow": keeping the exchange going (acknowledging, building on what was shared, asking back)
+- "skill": a finer point (adding detail, showing interest, using context, exiting gracefully)
+
+Return ONLY a JSON object:
+{
+  "suggestions": ["...", "..."],
+  "explanation": "...",
+  "category": "critical" | "flow" | "skill"
+}`;
+
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: "Suggest better ways to say the marked message." },
+  ];
+}
+
+/**
+ * Read the LLM's reply; null if it isn't the JSON asked for
+ */
+export function parseSuggestions(reply: string): ReplySuggestions | null {
+  const jsonMatch = reply.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/) || reply.match(/(\{[\s\S]*\})/);
+  try {
+    const parsed = replySuggestionsSchema.safeParse(JSON.parse(jsonMatch ? jsonMatch[1] : reply));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Data Retention
+ *
+ * Which stored conversation content is past its retention window, and the
+ * order the retention-purge edge function removes it in. Storage goes
+ * through a RetentionStore so the same loop runs against Supabase in the
+ * function and against an in-memory store in scripts/test-retention.ts.
+ */
+
+export const DEFAULT_RETENTION_DAYS = {
+  normal: 180,
+  crisis: 30,
+  moderation_blocked: 30,
+};
+
+export type RetentionCategory = keyof typeof DEFAULT_RETENTION_DAYS;
+export type RetentionWindows = Record<RetentionCategory, number>;
+
+// Session categories, most sensitive first so they're never starved
+export const SESSION_CATEGORIES = ["crisis", "normal"] as const;
+export type SessionCategory = typeof SESSION_CATEGORIES[number];
+
+// Most sessions purged per category per run; the rest wait for the next one
+export const MAX_SESSIONS_PER_RUN = 200;
+
+export interface PurgeCandidate {
+  id: string;
+  // The short code admins and feedback forms use
+  sessionCode: string;
+  endedAt: string;
+}
+
+export interface RetentionStore {
+  // Unpurged sessions of the category that ended before the cutoff, oldest first
+  dueSessions(category: SessionCategory, endedBefore: string, limit: number): Promise<PurgeCandidate[]>;
+  // Remove the session's content and record it, all or nothing; false if
+  // another run got there first
+  purgeSession(session: PurgeCandidate, category: SessionCategory, retentionDays: number): Promise<boolean>;
+  // Delete blocked replies older than the cutoff and record them, all or
+  // nothing; returns the count
+  purgeModerationLogs(blockedBefore: string, retentionDays: number): Promise<number>;
+}
+
+export interface PurgeSummary {
+  sessions: number;
+  moderationLogs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const retentionCutoff = (days: number, now = Date.now()) => new Date(now - days * DAY_MS).toISOString();
+
+/**
+ * Purge everything past its window. Each category is fetched with its own
+ * cutoff, so every session fetched is due and sessions still inside the
+ * longer normal window can't fill the batch ahead of due crisis sessions.
+ */
+export async function runRetentionPurge(
+  store: RetentionStore,
+  windows: RetentionWindows,
+  now = Date.now(),
+  limit = MAX_SESSIONS_PER_RUN
+): Promise<PurgeSummary> {
+  let sessions = 0;
+  for (const category of SESSION_CATEGORIES) {
+    const due = await store.dueSessions(category, retentionCutoff(windows[category], now), limit);
+    for (const session of due) {
+      if (await store.purgeSession(session, category, windows[category])) sessions++;
+    }
+  }
+
+  // Blocked replies of sessions still within their window
+  const moderationLogs = await store.purgeModerationLogs(
+    retentionCutoff(windows.moderation_blocked, now),
+    windows.moderation_blocked
+  );
+
+  return { sessions, moderationLogs };
+}
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import { registerScenario, resetScenarios, type ScenarioPack } from "./scenarios";
+
+/**
+ * Fetch admin-published scenario packs and rebuild the registry from the
+ * built-ins plus those, so unpublished or deleted packs drop out.
+ * A published pack with a built-in id (e.g. "bookstore") replaces the built-in.
+ * Invalid packs are skipped so one bad row can't break scene selection.
+ */
+export async function loadPublishedScenarios(): Promise<ScenarioPack[]> {
+  const { data, error } = await supabase
+    .from("scenarios")
+    .select("slug, pack")
+    .eq("status", "published");
+
+  if (error) {
+    console.error("Failed to load scenarios:", error);
+    return [];
+  }
+
+  resetScenarios();
+  const loaded: ScenarioPack[] = [];
+  for (const row of data || []) {
+    try {
+      loaded.push(registerScenario(row.pack));
+    } catch (err) {
+      console.error(`Skipping invalid scenario pack "${row.slug}":`, err);
+    }
+  }
+  return loaded;
+}
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { contextClueSchema, joinList, personalize, type ContextClue, type Persona } from "./personas.ts";
+
+/**
+ * Scenario Packs
+ *
+ * A scenario pack holds everything scene-specific: what Jordan is told about
+ * the setting, what the learner sees, scene-specific context clues, opening
+ * lines, safe small-talk topics and phase thresholds. The system prompt,
+ * SetupDialog, the scene-context coach message and the context-clue
+ * celebration all read from the same pack, so a new scene is one new entry in
+ * the registry. Who Jordan is (name, looks, interests) comes from the persona
+ * (personas.ts); text can name them with {name}.
+ */
+
+const phaseThresholdsSchema = z.object({
+  // Learner messages by which each phase usually ends (conversationPhase.ts
+  // moves on earlier or later based on what the learner does)
+  opening: z.number().int().min(1),
+  balancing: z.number().int().min(1),
+  wrappingUp: z.number().int().min(1),
+  // Extra messages balancing can run past its bound while the learner is engaged
+  extension: z.number().int().min(0).default(3),
+}).refine(
+  t => t.opening < t.balancing && t.balancing < t.wrappingUp,
+  { message: "Phase thresholds must increase: opening < balancing < wrappingUp" }
+);
+
+export const scenarioPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  title: z.string().min(1),
+  // Jordan's view of the setting (second person, Jordan is "you")
+  setting: z.string().min(1),
+  // The learner's view of the setting (second person, learner is "you")
+  learnerSetting: z.string().min(1),
+  contextClues: z.array(contextClueSchema).default([]),
+  openingLines: z.array(z.string().min(1)).min(1),
+  allowedTopics: z.array(z.string().min(1)).min(1),
+  phaseThresholds: phaseThresholdsSchema.default({ opening: 3, balancing: 6, wrappingUp: 10, extension: 3 }),
+  // "buffered": stream into a hidden buffer, reveal after moderation passes
+  // "optimistic": render tokens as they arrive, replace the reply if moderation blocks it (low-risk scenes only)
+  streamingMode: z.enum(["buffered", "optimistic"]).default("buffered"),
+});
+
+export type { ContextClue };
+export type PhaseThresholds = z.infer<typeof phaseThresholdsSchema>;
+export type ScenarioPack = z.infer<typeof scenarioPackSchema>;
+
+const BUILT_IN_SCENARIOS: ScenarioPack[] = [
+  {
+    id: "bookstore",
+    title: "Bookstore",
+    setting: "You are in a local bookstore and see the learner standing a few feet away, looking at book titles.",
+    learnerSetting: "You are in a local bookstore and see {name} standing a few feet away, looking at book titles.",
+    contextClues: [],
+    openingLines: ["Hey! I'm {name}. That stack looks good — anything you'd recommend?"],
+    allowedTopics: ["books", "music", "sports", "campus life", "study routines", "hobbies"],
+    phaseThresholds: { opening: 3, balancing: 6, wrappingUp: 10, extension: 3 },
+    streamingMode: "buffered",
+  },
+  {
+    id: "coffee",
+    title: "Coffee shop",
+    setting: "You are in line at a busy campus coffee shop. The aroma of fresh espresso fills the air and students are chatting at tables nearby.",
+    learnerSetting: "You are in line at a busy campus coffee shop. The aroma of fresh espresso fills the air and students are chatting at tables nearby. You notice {name} standing in line ahead of you.",
+    contextClues: [],
+    openingLines: ["Hey! I'm {name}. This line moves pretty fast here. What do you usually order?"],
+    allowedTopics: ["drinks", "campus life", "study routines", "hobbies", "weekend plans"],
+    phaseThresholds: { opening: 3, balancing: 6, wrappingUp: 10, extension: 3 },
+    streamingMode: "buffered",
+  },
+  {
+    id: "campus",
+    title: "Campus orientation",
+    setting: "You are at a campus orientation event. There are booths set up with club information and students mingling around.",
+    learnerSetting: "You are at a campus orientation event. There are booths set up with club information and students mingling around. {name} is standing nearby, looking at one of the booths.",
+    contextClues: [],
+    openingLines: ["Hey! I'm {name}. Orientation's wild, right? What are you hoping to check out first?"],
+    allowedTopics: ["clubs", "classes", "campus life", "study routines", "hobbies"],
+    phaseThresholds: { opening: 3, balancing: 6, wrappingUp: 10, extension: 3 },
+    streamingMode: "buffered",
+  },
+];
+
+export const DEFAULT_SCENARIO_ID = "bookstore";
+
+// --- Registry ---
+const registry = new Map<string, ScenarioPack>();
+
+/**
+ * Add or replace a scenario pack. Input is validated, so packs loaded from
+ * JSON are safe to register directly.
+ */
+export function registerScenario(pack: unknown): ScenarioPack {
+  const parsed = scenarioPackSchema.parse(pack);
+  registry.set(parsed.id, parsed);
+  return parsed;
+}
+
+/**
+ * Drop every registered pack but the built-ins, before registering the
+ * currently published ones
+ */
+export function resetScenarios() {
+  registry.clear();
+  BUILT_IN_SCENARIOS.forEach(registerScenario);
+}
+
+export function listScenarios(): ScenarioPack[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Look up a pack by id, falling back to the default scene for unknown ids
+ * (e.g. sessions logged before a scene was removed)
+ */
+export function getScenario(id: string): ScenarioPack {
+  return registry.get(id) || registry.get(DEFAULT_SCENARIO_ID)!;
+}
+
+resetScenarios();
+
+// --- Helpers ---
+
+// Clue descriptions as one clause
+function joinClues(clues: ContextClue[]): string {
+  return joinList(clues.map(c => c.description));
+}
+
+// The persona's own clues, then the scene's
+function visibleClues(pack: ScenarioPack, persona: Persona): ContextClue[] {
+  return [...persona.contextClues, ...pack.contextClues];
+}
+
+/**
+ * Scene description for Jordan's system prompt
+ */
+export function jordanSceneContext(pack: ScenarioPack, persona: Persona): string {
+  const clues = visibleClues(pack, persona);
+  const setting = personalize(pack.setting, persona);
+  if (clues.length === 0) return setting;
+  return `${setting} You are ${joinClues(clues)}.`;
+}
+
+/**
+ * Scene description shown to the learner at the start of the conversation
+ */
+export function learnerSceneContext(pack: ScenarioPack, persona: Persona, interlocutor: "he" | "she" | "they" | "neutral"): string {
+  const clues = visibleClues(pack, persona);
+  const setting = personalize(pack.learnerSetting, persona);
+  if (clues.length === 0) return setting;
+  const pronoun = interlocutor === "he" ? "He" : interlocutor === "she" ? "She" : "They";
+  const verb = interlocutor === "he" || interlocutor === "she" ? "is" : "are";
+  return `${setting} ${pronoun} ${verb} ${joinClues(clues)}.`;
+}
+
+export function pickOpeningLine(pack: ScenarioPack, persona: Persona, random: () => number = Math.random): string {
+  return personalize(pack.openingLines[Math.floor(random() * pack.openingLines.length)], persona);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * True if the learner's message mentions any of the persona's or the pack's
+ * context clues
+ */
+export function mentionsContextClue(pack: ScenarioPack, persona: Persona, text: string): boolean {
+  const keywords = visibleClues(pack, persona).flatMap(c => c.keywords);
+  if (keywords.length === 0) return false;
+  const pattern = new RegExp(`\\b(${keywords.map(escapeRegExp).join("|")})\\b`, "i");
+  return pattern.test(text);
+}
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import { DEFAULTS } from "./constants";
+import { getScenario, learnerSceneContext } from "./scenarios";
+import type { CelebratedBehaviors } from "./coachingEngine";
+import type { ChatAdapter, ChatMessage } from "./llmAdapters";
+import { renderTip } from "./tipCatalog";
+import { DEFAULT_DIFFICULTY } from "./difficulty";
+import { DEFAULT_PERSONA_ID, getPersona, personalize } from "./personas";
+import type { PhaseState } from "./conversationPhase";
+import { runTurn, type CrisisAnalysis, type PipelineTurn, type TurnResult, type TurnServices } from "./turnPipeline";
+
+/**
+ * Scripted Mock
+ *
+ * Replays a conversation fixture through the real turn pipeline with no
+ * network: Jordan's replies, moderation verdicts and crisis-analysis verdicts
+ * all come from the fixture. In "echo-phase" mode Jordan instead replies with
+ * the phase line from the system prompt (e.g. "PHASE: BALANCING"), which
+ * makes phase transitions easy to assert.
+ */
+
+const difficultySchema = z.enum(["beginner", "intermediate", "advanced"]);
+
+const crisisVerdictSchema = z.union([
+  z.object({
+    severity: z.enum(["crisis", "coaching", "safe"]),
+    reason: z.string().optional(),
+  }),
+  // Simulate the crisis-analysis LLM call failing
+  z.literal("error"),
+]);
+
+const scriptedTurnSchema = z.object({
+  user: z.string().min(1),
+  // Jordan's reply for this turn (ignored in echo-phase mode)
+  jordan: z.string().optional(),
+  // Jordan's reply to the self-response retry, if the first reply triggers one
+  retry: z.string().optional(),
+  // Moderation verdict for Jordan's reply; defaults to safe
+  moderation: z.object({
+    safe: z.boolean(),
+    reason: z.string().optional(),
+    finalResponse: z.string().optional(),
+  }).optional(),
+  // Crisis-analysis verdict, used only if the distress layer asks for one; defaults to safe
+  crisis: crisisVerdictSchema.optional(),
+  // Expected pipeline output; null means "must be absent"
+  expect: z.object({
+    outcome: z.enum(["crisis", "reply"]).optional(),
+    reply: z.string().optional(),
+    // Tip catalog IDs
+    coachTipId: z.string().nullable().optional(),
+    coachChatMessageId: z.string().nullable().optional(),
+    celebratedBehavior: z.string().nullable().optional(),
+    // Level auto-adjust moved to after this turn
+    difficulty: difficultySchema.nullable().optional(),
+    // Phase Jordan replied in
+    phase: z.enum(["opening", "balancing", "wrappingUp", "closing"]).optional(),
+  }).optional(),
+});
+
+export const conversationFixtureSchema = z.object({
+  name: z.string().min(1),
+  mode: z.enum(["script", "echo-phase"]).default("script"),
+  scene: z.string().default(DEFAULTS.scene),
+  persona: z.string().default(DEFAULT_PERSONA_ID),
+  interlocutor: z.enum(["he", "she", "they"]).default("they"),
+  difficulty: difficultySchema.default(DEFAULT_DIFFICULTY),
+  autoDifficulty: z.boolean().default(false),
+  // Jordan never ends the conversation; the learner's exit is graded
+  exitPractice: z.boolean().default(false),
+  // Jordan's opening line; defaults to the scene's first opening line
+  openingLine: z.string().optional(),
+  turns: z.array(scriptedTurnSchema).min(1),
+});
+
+export type ScriptedTurn = z.infer<typeof scriptedTurnSchema>;
+export type ConversationFixture = z.infer<typeof conversationFixtureSchema>;
+
+const SCRIPT_EXHAUSTED_REPLY = "(Script exhausted)";
+
+/**
+ * Phase line from the system prompt, e.g. "PHASE: OPENING"
+ */
+export function echoPhase(messages: ChatMessage[]): string {
+  const match = messages[0]?.content.match(/\*\*PHASE: ([A-Z ]+?)\*\*/);
+  return match ? `PHASE: ${match[1]}` : "PHASE: UNKNOWN";
+}
+
+/**
+ * Turn services that answer from the fixture. Call advance() before each
+ * learner turn; every chat/moderation/crisis call then reads from that turn.
+ */
+export function createScriptedServices(fixture: ConversationFixture): TurnServices & { advance(): ScriptedTurn } {
+  let index = -1;
+  const current = () => fixture.turns[index];
+
+  const adapter: ChatAdapter = {
+    id: "scripted",
+    async chat(messages) {
+      if (fixture.mode === "echo-phase") return echoPhase(messages);
+
+      const turn = current();
+      if (!turn) return SCRIPT_EXHAUSTED_REPLY;
+      // The self-response retry adds a CRITICAL FIX system message
+      const isRetry = messages.some(m => m.role === "system" && m.content.startsWith("CRITICAL FIX"));
+      return (isRetry ? turn.retry : turn.jordan) ?? turn.jordan ?? SCRIPT_EXHAUSTED_REPLY;
+    },
+  };
+
+  return {
+    adapter,
+    advance() {
+      index++;
+      return current();
+    },
+    async analyzeCrisis() {
+      const verdict = current()?.crisis;
+      if (verdict === "error") throw new Error("Scripted crisis analysis failure");
+      return (verdict || { severity: "safe" }) as CrisisAnalysis;
+    },
+    async moderate(reply) {
+      const verdict = current()?.moderation;
+      if (!verdict || verdict.safe) return { safe: true, finalResponse: reply };
+      return {
+        safe: false,
+        reason: verdict.reason,
+        finalResponse: verdict.finalResponse || "I'm having trouble thinking of what to say. Can you ask me something else?",
+      };
+    },
+  };
+}
+
+export interface ScriptedTurnResult {
+  turn: ScriptedTurn;
+  result: TurnResult;
+  // Human-readable expectation failures, empty if the turn matched
+  failures: string[];
+}
+
+function checkExpectations(turn: ScriptedTurn, result: TurnResult): string[] {
+  const expect = turn.expect;
+  if (!expect) return [];
+
+  const failures: string[] = [];
+  const check = (field: string, expected: string | null | undefined, actual: string | undefined) => {
+    if (expected === undefined) return;
+    if ((expected ?? undefined) !== actual) {
+      failures.push(`${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual ?? null)}`);
+    }
+  };
+
+  check("outcome", expect.outcome, result.kind);
+  if (result.kind === "reply") {
+    check("reply", expect.reply, result.reply);
+    check("coachTipId", expect.coachTipId, result.coachTip?.id);
+    check("coachChatMessageId", expect.coachChatMessageId, result.coachChatMessage?.id);
+    check("celebratedBehavior", expect.celebratedBehavior, result.celebratedBehavior);
+    check("difficulty", expect.difficulty, result.difficulty);
+    check("phase", expect.phase, result.phase.phase);
+  }
+  return failures.map(f => `"${turn.user}" → ${f}`);
+}
+
+/**
+ * Drive a whole fixture through runTurn, carrying history, cooldown,
+ * celebrated behaviors, difficulty and phase between turns the same way the
+ * jordan-turn function does. Stops at the first crisis outcome, like the app.
+ */
+export async function runScript(input: unknown): Promise<ScriptedTurnResult[]> {
+  const fixture = conversationFixtureSchema.parse(input);
+  const services = createScriptedServices(fixture);
+  const pack = getScenario(fixture.scene);
+  const persona = getPersona(fixture.persona);
+  const vars = { name: persona.name };
+
+  // Same opening as Index.tsx: scene context, then Jordan's opening line
+  let history: PipelineTurn[] = [
+    { role: "coach", content: learnerSceneContext(pack, persona, fixture.interlocutor) },
+    { role: "assistant", content: personalize(fixture.openingLine || pack.openingLines[0], persona) },
+  ];
+  let cooldown = false;
+  let difficulty = fixture.difficulty;
+  let phase: PhaseState | undefined;
+  let celebratedBehaviors: CelebratedBehaviors = {
+    askedFirstQuestion: false,
+    sharedPersonally: false,
+    activeListening: false,
+    gracefulClose: false,
+    followedSuggestion: false,
+    foundCommonGround: false,
+    usedContextClues: false,
+  };
+
+  const results: ScriptedTurnResult[] = [];
+  for (const turn of fixture.turns) {
+    services.advance();
+    const result = await runTurn(
+      {
+        userText: turn.user,
+        history,
+        scene: fixture.scene,
+        persona: persona.id,
+        interlocutor: fixture.interlocutor,
+        cooldown,
+        celebratedBehaviors,
+        difficulty,
+        autoDifficulty: fixture.autoDifficulty,
+        phase,
+        exitPractice: fixture.exitPractice,
+      },
+      services
+    );
+    results.push({ turn, result, failures: checkExpectations(turn, result) });
+
+    if (result.kind === "crisis") break;
+
+    const next: PipelineTurn[] = [{ role: "user", content: turn.user, coachTipId: result.coachTip?.id }];
+    if (result.coachChatMessage) next.push({ role: "coach", content: renderTip(result.coachChatMessage, { vars }) });
+    next.push({ role: "assistant", content: result.reply });
+    if (result.jordanInsight) next.push({ role: "coach", content: renderTip(result.jordanInsight, { vars }) });
+
+    history = [...history, ...next];
+    cooldown = !!result.coachTip || !!result.coachChatMessage;
+    difficulty = result.difficulty ?? difficulty;
+    phase = result.phase;
+    if (result.celebratedBehavior) {
+      celebratedBehaviors = { ...celebratedBehaviors, [result.celebratedBehavior]: true };
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,262 @@
+import { ACKNOWLEDGMENT_WORDS } from "./constants.ts";
+import { getTip, isTipId, type TipCategory, type TipRef } from "./tipCatalog.ts";
+import { gradeExitText, isExitMessage, type ExitGrade } from "./exitGrading.ts";
+import { joinList } from "./personas.ts";
+
+/**
+ * Session Report
+ *
+ * End-of-session feedback built from nothing but the transcript as stored in
+ * sessions.transcript, so the learner's summary and the admin dashboard show
+ * the same report. Every learner message is annotated with the coaching that
+ * fired on it and the skills it showed; the session gets a score per skill
+ * for the radar chart, and the two weakest messages get a "try this instead"
+ * rewrite. Text may contain {name} for the conversation partner.
+ */
+
+export interface ReportTurn {
+  role: "user" | "assistant" | "coach";
+  content: string;
+  // Tip shown with a user message, or the tip a coach message renders
+  coachTip?: TipRef | null;
+}
+
+export type ReportSkill = "questions" | "reciprocity" | "activeListening" | "selfDisclosure" | "exitHandling";
+
+export const REPORT_SKILLS: ReportSkill[] = ["questions", "reciprocity", "activeListening", "selfDisclosure", "exitHandling"];
+
+export const REPORT_SKILL_LABELS: Record<ReportSkill, string> = {
+  questions: "Questions asked",
+  reciprocity: "Reciprocity",
+  activeListening: "Active listening",
+  selfDisclosure: "Self-disclosure",
+  exitHandling: "Exit handling",
+};
+
+// What the learner did well, for their strongest skills
+const SKILL_STRENGTHS: Record<ReportSkill, string> = {
+  questions: "Asked questions to show interest",
+  reciprocity: "Answered {name}'s questions and asked back",
+  activeListening: "Responded to what {name} shared",
+  selfDisclosure: "Shared about yourself",
+  exitHandling: "Ended the conversation gracefully",
+};
+
+// Growth advice for the weakest skill
+const SKILL_ADVICE: Record<ReportSkill, string> = {
+  questions: "Ask more questions to show interest and keep the conversation balanced",
+  reciprocity: "After answering {name}'s question, toss one back ('what about you?') so it's an exchange",
+  activeListening: "React to what {name} says before moving on, so they know you were listening",
+  selfDisclosure: "Share a little more about yourself so {name} has something to respond to",
+  exitHandling: "Practice ending the conversation: signal you're leaving, say you enjoyed it, then say goodbye",
+};
+
+export interface TurnAnnotation {
+  // Coaching that fired on this message: the tip shown with it, then any
+  // coach message (celebration, exit feedback) right after it
+  tips: TipRef[];
+  // Skills the message showed
+  skills: ReportSkill[];
+  // Higher is stronger; the two lowest get rewrites
+  score: number;
+}
+
+export interface AnnotatedTurn extends ReportTurn {
+  // Learner messages only
+  annotation?: TurnAnnotation;
+}
+
+export interface Rewrite {
+  // Index into the report's turns
+  turnIndex: number;
+  original: string;
+  suggestion: string;
+  // What the rewrite does differently
+  why: string;
+}
+
+export interface SessionReport {
+  turns: AnnotatedTurn[];
+  // 0-100 per skill
+  skills: Record<ReportSkill, number>;
+  strengths: string[];
+  // Advice for the weakest skill
+  focus: string;
+  rewrites: Rewrite[];
+  // How the learner left, if they did
+  exit?: ExitGrade;
+}
+
+// Tips that point at something to fix, as opposed to celebrations and insights
+const CORRECTIVE: TipCategory[] = ["critical", "flow", "skill"];
+
+const ASKED_BACK = /\b(what about you|how about you|and you|hbu|wbu|you\?)/i;
+const SELF_DISCLOSURE = /\b(i|i'm|i've|my|i'd|me)\s+\w+/i;
+const STOPWORDS = new Set(["about", "think", "would", "could", "should", "really", "actually", "there", "their", "what", "that's", "those", "these", "thing", "things"]);
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+const ratio = (count: number, total: number, target: number) =>
+  total === 0 ? 0 : Math.round(Math.min(1, count / total / target) * 100);
+
+/**
+ * Build the report. Accepts transcripts as stored: malformed turns and
+ * pre-catalog string tips are skipped.
+ */
+export function buildSessionReport(transcript: unknown): SessionReport {
+  const turns: AnnotatedTurn[] = (Array.isArray(transcript) ? transcript : [])
+    .filter(t => t && typeof t.content === "string" && ["user", "assistant", "coach"].includes(t.role))
+    .map(t => ({ role: t.role, content: t.content, coachTip: readTip(t.coachTip) }));
+  const counts = { asked: 0, jordanAsked: 0, reciprocated: 0, listened: 0, disclosed: 0, learner: 0 };
+  let lastJordan: string | undefined;
+
+  turns.forEach((turn, i) => {
+    if (turn.role === "assistant") {
+      lastJordan = turn.content;
+      return;
+    }
+    if (turn.role !== "user") return;
+
+    const text = turn.content;
+    const asked = /\?/.test(text) || ASKED_BACK.test(text);
+    const jordanAsked = !!lastJordan && /\?/.test(lastJordan);
+    const answered = jordanAsked && words(text).length >= 4;
+    const listened = !!lastJordan && (acknowledges(text) || echoes(text, lastJordan));
+    const disclosed = SELF_DISCLOSURE.test(text) && words(text).length >= 6;
+
+    const skills: ReportSkill[] = [];
+    if (asked) skills.push("questions");
+    if (answered && asked) skills.push("reciprocity");
+    if (listened) skills.push("activeListening");
+    if (disclosed) skills.push("selfDisclosure");
+    if (isExitMessage(text)) skills.push("exitHandling");
+
+    const tips = [turn.coachTip, ...followingCoachTips(turns, i)].filter((t): t is TipRef => !!t);
+    const corrections = tips.filter(t => CORRECTIVE.includes(getTip(t.id).category)).length;
+    const tooShort = words(text).length < 4 && !asked;
+    turn.annotation = { tips, skills, score: skills.length - 2 * corrections - (tooShort ? 1 : 0) };
+
+    counts.learner++;
+    if (asked) counts.asked++;
+    if (jordanAsked) counts.jordanAsked++;
+    if (answered && asked) counts.reciprocated++;
+    if (listened) counts.listened++;
+    if (disclosed) counts.disclosed++;
+    lastJordan = undefined;
+  });
+
+  const exit = learnerExit(turns);
+  const skills: Record<ReportSkill, number> = {
+    // Asking in about half your messages is plenty
+    questions: ratio(counts.asked, counts.learner, 0.5),
+    reciprocity: ratio(counts.reciprocated, counts.jordanAsked, 0.5),
+    activeListening: ratio(counts.listened, counts.learner, 0.6),
+    selfDisclosure: ratio(counts.disclosed, counts.learner, 0.5),
+    exitHandling: exit ? Math.round((exit.score / 3) * 100) : 0,
+  };
+
+  const ranked = [...REPORT_SKILLS].sort((a, b) => skills[a] - skills[b]);
+  const strengths = [...ranked].reverse().filter(s => skills[s] >= 60).slice(0, 3).map(s => SKILL_STRENGTHS[s]);
+
+  return {
+    turns,
+    skills,
+    strengths,
+    focus: counts.learner === 0 ? "" : SKILL_ADVICE[ranked[0]],
+    rewrites: weakestTurns(turns, 2).map(i => rewriteTurn(turns, i)),
+    exit,
+  };
+}
+
+// --- Helpers ---
+
+// Transcripts store catalog tips ({ id, variant }); older sessions stored the text
+function readTip(tip: unknown): TipRef | null {
+  const ref = tip as { id?: unknown; variant?: unknown } | null;
+  return ref && isTipId(ref.id) ? { id: ref.id, variant: Number(ref.variant) || 0 } : null;
+}
+
+// Coach messages sent with a learner message come right after it
+function followingCoachTips(turns: AnnotatedTurn[], index: number): Array<TipRef | null | undefined> {
+  const tips: Array<TipRef | null | undefined> = [];
+  for (let i = index + 1; i < turns.length && turns[i].role === "coach"; i++) tips.push(turns[i].coachTip);
+  return tips;
+}
+
+function acknowledges(text: string): boolean {
+  const opening = text.toLowerCase().slice(0, 20);
+  return ACKNOWLEDGMENT_WORDS.some(w => new RegExp(`^\\W*${w}\\b`).test(opening));
+}
+
+// Picks up a content word from what Jordan said
+function echoes(text: string, jordan: string): boolean {
+  const lower = text.toLowerCase();
+  return words(jordan.toLowerCase())
+    .map(w => w.replace(/[^a-z']/g, ""))
+    .some(w => w.length > 4 && !STOPWORDS.has(w) && new RegExp(`\\b${w}\\b`).test(lower));
+}
+
+function learnerExit(turns: AnnotatedTurn[]): ExitGrade | undefined {
+  const learner = turns.filter(t => t.role === "user").map(t => t.content);
+  const exitIndex = learner.findIndex(isExitMessage);
+  if (exitIndex === -1) return undefined;
+  return gradeExitText(learner.slice(Math.max(0, exitIndex - 1)).join("\n"));
+}
+
+// Lowest-scoring learner messages that have room to improve, in transcript order
+function weakestTurns(turns: AnnotatedTurn[], count: number): number[] {
+  return turns
+    .map((turn, index) => ({ index, score: turn.annotation?.score }))
+    .filter((t): t is { index: number; score: number } => t.score !== undefined && t.score <= 0)
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .slice(0, count)
+    .map(t => t.index)
+    .sort((a, b) => a - b);
+}
+
+function rewriteTurn(turns: AnnotatedTurn[], index: number): Rewrite {
+  const turn = turns[index];
+  const original = turn.content.trim();
+  const skills = turn.annotation?.skills ?? [];
+
+  if (skills.includes("exitHandling")) {
+    return {
+      turnIndex: index,
+      original,
+      suggestion: "Anyway, I should get going. It was really nice talking to you. See you around!",
+      why: "Signals you're leaving, says you enjoyed the chat, then says goodbye",
+    };
+  }
+
+  const parts: string[] = [];
+  const changes: string[] = [];
+  const previous = turns.slice(0, index).reverse().find(t => t.role === "assistant");
+
+  if (previous && !skills.includes("activeListening")) {
+    parts.push("Oh nice!");
+    changes.push("reacts to what {name} said");
+  }
+  const body = /[.!?]$/.test(original) ? original : `${original}.`;
+  if (skills.includes("questions") && !skills.includes("selfDisclosure")) {
+    // Answer first, then ask
+    parts.push("I'm more of a [your answer] person myself.", body);
+    changes.push("shares your own answer first");
+  } else {
+    parts.push(body);
+    if (words(original).length < 6) {
+      parts.push("[Add a detail: why, when or how.]");
+      changes.push("adds a detail about you");
+    }
+  }
+  if (!skills.includes("questions")) {
+    parts.push("What about you?");
+    changes.push("asks {name} something back");
+  }
+
+  const why = joinList(changes);
+  return {
+    turnIndex: index,
+    original,
+    suggestion: parts.join(" "),
+    why: why ? why[0].toUpperCase() + why.slice(1) : "Keeps the conversation going",
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Session Status
+ *
+ * Where a session is in its lifecycle, as kept in
+ * session_metadata.completion_status. The browser starts, resumes and
+ * completes sessions, session-cleanup pauses one when its tab closes,
+ * jordan-turn ends it on a crisis, and the scheduled session-sweep function
+ * ends the ones that went quiet. A database trigger derives the status from
+ * sessions.ended_at / paused_at; only session-sweep writes it directly.
+ */
+
+export const COMPLETION_STATUSES = [
+  "in_progress",
+  "paused",
+  "resumed",
+  "completed",
+  "abandoned",
+  "crisis_ended",
+  "timed_out",
+] as const;
+export type CompletionStatus = typeof COMPLETION_STATUSES[number];
+
+export const COMPLETION_STATUS_LABELS: Record<CompletionStatus, string> = {
+  in_progress: "In Progress",
+  // Tab closed; the learner can still resume it
+  paused: "Paused",
+  // Picked up again after a pause
+  resumed: "Resumed",
+  // Ended by the learner
+  completed: "Completed",
+  // Paused and never resumed
+  abandoned: "Abandoned",
+  crisis_ended: "Crisis Ended",
+  // No turns for too long while the tab stayed open (or its close went unnoticed)
+  timed_out: "Timed Out",
+};
+
+// Statuses of sessions that haven't ended
+export const OPEN_STATUSES: readonly CompletionStatus[] = ["in_progress", "paused", "resumed"];
+
+export function isCompletionStatus(value: unknown): value is CompletionStatus {
+  return COMPLETION_STATUSES.includes(value as CompletionStatus);
+}
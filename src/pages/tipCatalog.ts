@@ -0,0 +1,356 @@
+/**
+ * Coaching Tip Catalog
+ *
+ * Every piece of coach copy the learner can see, keyed by a stable ID. The
+ * coaching engine and guardrails decide *which* tip applies and return its
+ * ID; the wording is looked up here only when a tip is shown. Analytics
+ * (turn_events.coach_tip_id), the session summary and the admin dashboard
+ * all work on IDs, so rewording a tip never changes what it counts as.
+ *
+ * Each tip has several phrasing variants. A session always sees the same
+ * variant of a given tip (picked from the session seed), and the variant
+ * index is recorded with the turn so phrasings can be A/B compared.
+ *
+ * Strings are stored per locale; a locale only needs to translate the tips
+ * it cares about, anything missing falls back to English.
+ */
+
+export type TipCategory = "safety" | "critical" | "flow" | "skill" | "celebration" | "insight";
+
+// Skill areas: growth areas in the session summary, mastery in learner profiles
+export type TipTheme = "reciprocity" | "shortAnswers" | "notListening" | "exitCues" | "interviewing";
+
+// What a tip asks the learner to do, so a follow-through can be celebrated
+export type TipSuggestion = "askQuestion" | "shareName" | "acknowledge";
+
+export interface TipDefinition {
+  category: TipCategory;
+  // Skill the tip coaches (for celebrations, the skill it shows progress in)
+  theme?: TipTheme;
+  suggests?: TipSuggestion;
+}
+
+const TIPS = {
+  // Safety & appropriateness — always shown, bypass cooldown
+  pii: { category: "safety" },
+  controversial: { category: "safety" },
+  heavyTopic: { category: "safety" },
+  contactInfo: { category: "safety" },
+  neutralPivot: { category: "safety" },
+  unkindRemark: { category: "safety" },
+
+  // Critical conversation errors
+  selfIntro: { category: "critical", suggests: "shareName" },
+  unansweredQuestion: { category: "critical", theme: "shortAnswers" },
+  answerFirst: { category: "critical", theme: "interviewing" },
+  greetingOnlyAfterQuestion: { category: "critical", theme: "shortAnswers" },
+  greetingOnly: { category: "critical", theme: "shortAnswers" },
+  repeatedQuestion: { category: "critical", theme: "notListening" },
+
+  // Conversation flow
+  acknowledgeFirst: { category: "flow", theme: "notListening", suggests: "acknowledge" },
+  buildOnShare: { category: "flow", theme: "shortAnswers", suggests: "askQuestion" },
+  deflection: { category: "flow", theme: "interviewing" },
+  exitCuesLeaving: { category: "flow", theme: "exitCues" },
+  exitCuesWindingDown: { category: "flow", theme: "exitCues" },
+  stuckAfterQuestion: { category: "flow" },
+  stuck: { category: "flow", theme: "reciprocity", suggests: "askQuestion" },
+  interviewMode: { category: "flow", theme: "interviewing" },
+  noReciprocity: { category: "flow", theme: "reciprocity", suggests: "askQuestion" },
+
+  // Skill development
+  milestoneAskBack: { category: "skill", theme: "reciprocity", suggests: "askQuestion" },
+  milestoneOpenEnded: { category: "skill" },
+  milestoneWrapUp: { category: "skill" },
+  tooShort: { category: "skill", theme: "shortAnswers", suggests: "askQuestion" },
+  tooLong: { category: "skill", suggests: "askQuestion" },
+  longOpener: { category: "skill" },
+  openQuestion: { category: "skill", suggests: "askQuestion" },
+  stallNudge: { category: "skill" },
+  stallNudgeTopics: { category: "skill" },
+  // Exit practice feedback (see exitGrading.ts)
+  exitComplete: { category: "skill" },
+  exitNoFarewell: { category: "skill", theme: "exitCues" },
+  exitNoPreClosing: { category: "skill", theme: "exitCues" },
+  exitNoAppreciation: { category: "skill", theme: "exitCues" },
+
+  // First-time positive behaviors (IDs match CelebratedBehaviors keys)
+  askedFirstQuestion: { category: "celebration", theme: "reciprocity" },
+  sharedPersonally: { category: "celebration", theme: "interviewing" },
+  activeListening: { category: "celebration", theme: "notListening" },
+  gracefulClose: { category: "celebration", theme: "exitCues" },
+  foundCommonGround: { category: "celebration", theme: "shortAnswers" },
+  usedContextClues: { category: "celebration" },
+  followedSuggestion: { category: "celebration" },
+
+  // Why Jordan did what they just did
+  jordanClosing: { category: "insight" },
+  jordanAskingQuestion: { category: "insight" },
+  jordanSharingPersonal: { category: "insight" },
+  jordanChangingTopic: { category: "insight" },
+} satisfies Record<string, TipDefinition>;
+
+export type TipId = keyof typeof TIPS;
+
+// A tip as shown: which tip, and which phrasing
+export interface TipRef {
+  id: TipId;
+  variant: number;
+}
+
+type TipStrings = Partial<Record<TipId, string[]>>;
+
+// Placeholders: {name} is the conversation partner; other vars are per tip
+const EN: Record<TipId, string[]> = {
+  pii: [
+    "It's best to wait until you know someone better before sharing where you live or other personal details. For safety reasons, keep that info private with people you've just met.",
+    "Heads up: details like where you live are worth keeping to yourself until you know someone better. It's a good safety habit with people you've just met.",
+  ],
+  controversial: [
+    "Topics like politics or religion can derail small talk. Try lighter subjects to build rapport first.",
+    "Politics and religion can get tense fast with someone new. Build some rapport on lighter topics first.",
+  ],
+  heavyTopic: [
+    "That's a heavy or personal topic for casual small talk. Try pivoting to something lighter like hobbies, the scene, or asking {name} a question.",
+    "That's a lot to bring into a casual chat. Something lighter — hobbies, what's around you, or a question for {name} — keeps small talk easy.",
+  ],
+  contactInfo: [
+    "Avoid sharing personal contact info with strangers. Keep it general.",
+    "Keep contact details to yourself with people you've just met — general is fine.",
+  ],
+  neutralPivot: [
+    "That's a heavy topic for quick small talk. Try a neutral pivot question.",
+    "That one can get intense fast. A neutral question is an easy way to change direction.",
+  ],
+  unkindRemark: [
+    "Saying things that could be interpreted as unkind or insulting when you initially meet someone implies you don't want to talk to them. They don't know you well enough to know if you're kidding.",
+    "Teasing lands differently with someone you just met — they can't tell yet if you're kidding, so it can come across as not wanting to talk.",
+  ],
+
+  selfIntro: [
+    "Tip: {name} shared their name — dropping yours in ('I'm [name]') is an easy way to make the chat feel more personal.",
+    "Tip: {name} introduced themselves — sharing your name back ('I'm [name]') makes things feel friendlier right away.",
+  ],
+  unansweredQuestion: [
+    "{name} asked you something — that's a great chance to share a bit about yourself.",
+    "{name} asked you a question — answering it is an easy way to let them get to know you.",
+  ],
+  answerFirst: [
+    "Tip: answering {name}'s question before asking yours helps the conversation feel balanced.",
+    "Tip: give your answer first, then ask yours — it keeps the back-and-forth even.",
+  ],
+  greetingOnlyAfterQuestion: [
+    "Tip: {name} asked you something — this is a great opening to share a bit about yourself!",
+    "Tip: {name}'s question is your cue — share a little about yourself!",
+  ],
+  greetingOnly: [
+    "Tip: after 'hey', try adding a thought or question to get the conversation rolling.",
+    "Tip: follow your 'hey' with a quick question or comment to get things going.",
+  ],
+  repeatedQuestion: [
+    "Tip: {name} touched on this earlier — try building on what they said, like 'you mentioned X — tell me more about that!'",
+    "Tip: {name} already mentioned this — picking up their thread ('you said X — how was that?') shows you were listening.",
+  ],
+
+  acknowledgeFirst: [
+    "Tip: a quick 'oh cool!' or 'nice!' before your question can make the conversation feel warmer.",
+    "Tip: react to what {name} said ('that's awesome!') before jumping to your next question.",
+  ],
+  buildOnShare: [
+    "Tip: {name} just shared something — a follow-up like 'how'd you get into that?' keeps the convo going.",
+    "Tip: when {name} shares something, a curious follow-up ('what's that like?') keeps things moving.",
+  ],
+  deflection: [
+    "Good instinct to ask back! Try adding your own thought first — 'I usually go with X. You?' makes it more of an exchange.",
+    "Asking back is good! Add your own answer first — 'Honestly, X for me. You?' — so it's a real exchange.",
+  ],
+  exitCuesLeaving: [
+    "Tip: sounds like {name}'s wrapping up — a friendly 'nice talking to you!' or 'take care!' lands well here.",
+    "Tip: {name} is heading out — a warm 'great chatting!' is the perfect send-off.",
+  ],
+  exitCuesWindingDown: [
+    "Tip: {name}'s winding down — matching their energy with a casual goodbye wraps things up nicely.",
+    "Tip: {name} is easing toward a goodbye — a casual 'good talking to you' closes things out smoothly.",
+  ],
+  stuckAfterQuestion: [
+    "Feeling stuck? Try: 'Hmm, I haven't thought about that — what about you?' It's okay to redirect.",
+    "Not sure how to answer? 'Good question — I'm not sure! What about you?' is a totally fine redirect.",
+  ],
+  stuck: [
+    "Not sure what to say? Ask {name} to share more: 'How'd you get into that?' shows genuine curiosity.",
+    "Out of ideas? Invite {name} to say more — 'What got you into that?' shows you're curious.",
+  ],
+  interviewMode: [
+    "Asking questions is great — you'll also want to break it up by sharing about yourself or responding to what they said, so it doesn't feel like an interview.",
+    "Lots of great questions! Mix in your own take or a reaction to their answers so it feels like a chat, not an interview.",
+  ],
+  noReciprocity: [
+    "Tip: tossing a question back to {name} — like 'what about you?' — keeps the energy flowing both ways.",
+    "Tip: a quick 'how about you?' gives {name} a turn and keeps things balanced.",
+  ],
+
+  milestoneAskBack: [
+    "Tip: people love being asked about themselves — a simple 'what about you?' can open things up.",
+    "Tip: a simple 'what about you?' invites {name} to share and opens things up.",
+  ],
+  milestoneOpenEnded: [
+    "You're getting into a rhythm! Notice how open-ended questions ('What do you think about...?') invite more interesting answers than yes/no questions.",
+    "Nice rhythm! Open-ended questions ('What's the best part of...?') get richer answers than yes/no ones.",
+  ],
+  milestoneWrapUp: [
+    "Conversations often wrap up around now. Watch for exit cues like 'I should get going' — they're invitations to say goodbye gracefully.",
+    "Small talk often winds down about now. Listen for cues like 'I should get going' — that's your chance for a graceful goodbye.",
+  ],
+  tooShort: [
+    "Tip: adding a quick thought or follow-up question — like 'Nice! What got you into that?' — can help keep the momentum going.",
+    "Tip: a short reply plus a question ('Cool! How'd that start?') keeps the momentum going.",
+  ],
+  tooLong: [
+    "Great detail! End with a question like 'What do you think?' to invite {name} back into the conversation.",
+    "Love the detail! Wrap up with a question like 'Have you ever tried that?' to hand it back to {name}.",
+  ],
+  longOpener: [
+    "Nice opener! In casual small talk, shorter first responses (2-3 sentences) leave room for back-and-forth to develop naturally.",
+    "Good start! Keeping early replies to 2-3 sentences leaves room for a natural back-and-forth.",
+  ],
+  openQuestion: [
+    "Add an open question to keep things moving.",
+    "An open-ended question is an easy way to keep things moving.",
+  ],
+  stallNudge: [
+    "Feeling stuck? Try using context clues! Look at what {name} is wearing or carrying — those are great conversation starters.",
+    "Stuck for something to say? Check out what {name} has with them — it's an easy conversation starter.",
+  ],
+  stallNudgeTopics: [
+    "Feeling stuck? Try using context clues! Something about the {scene} — {topics} — makes a great conversation starter.",
+    "Stuck for something to say? The {scene} itself is a good starting point — try {topics}.",
+  ],
+
+  exitComplete: [
+    "That's a textbook exit: you signaled you were leaving, showed {name} you enjoyed the chat and said a clear goodbye.",
+    "Smooth exit! A heads-up that you're leaving, a thank-you and a goodbye is exactly how to end a conversation well.",
+  ],
+  exitNoFarewell: [
+    "You let {name} know you were heading out — finish with a clear 'see you!' or 'take care!' so the conversation has a definite end.",
+    "Good start on your exit! Close it with an actual goodbye ('bye, take care!') so {name} knows you're off.",
+  ],
+  exitNoPreClosing: [
+    "Nice goodbye! Next time, try a signal first — 'I should get going' or 'well, I've got class soon' — so the ending doesn't feel sudden.",
+    "Good exit! A quick heads-up before the goodbye ('anyway, I should head out') makes leaving feel less abrupt.",
+  ],
+  exitNoAppreciation: [
+    "Good exit! Adding 'it was really nice talking to you' shows {name} you enjoyed the chat and leaves a warm last impression.",
+    "Nicely handled! A quick 'thanks, this was fun' before the goodbye makes {name} feel appreciated.",
+  ],
+
+  askedFirstQuestion: [
+    "Nice! Asking questions is one of the best ways to connect — people love talking about themselves.",
+    "Great question! Showing curiosity is one of the easiest ways to connect.",
+  ],
+  sharedPersonally: [
+    "That's the vibe — sharing about yourself builds real connection.",
+    "Love that — opening up a little is how real connection starts.",
+  ],
+  activeListening: [
+    "Great listening — referencing what someone said makes them feel heard.",
+    "Nice callback — bringing up what they said shows you're really listening.",
+  ],
+  gracefulClose: [
+    "Smooth close — ending warmly leaves a good impression.",
+    "Nicely done — a warm goodbye leaves a great last impression.",
+  ],
+  foundCommonGround: [
+    "Finding common ground — that's one of the fastest ways to build connection with someone new.",
+    "Common ground! Shared interests are one of the quickest ways to click with someone new.",
+  ],
+  usedContextClues: [
+    "Great job using context clues to figure out a good conversation topic!",
+    "Nice — picking up on what's around you is a great way to find something to talk about!",
+  ],
+  followedSuggestion: [
+    "You picked that up fast — that's exactly the kind of move that makes conversations flow.",
+    "Nice, you put that tip to work — that's the kind of move that keeps conversations flowing.",
+  ],
+
+  jordanClosing: [
+    "{name} is starting to wrap up — in real life, people often signal they need to go before actually leaving. It's a polite way to give you a chance to say goodbye.",
+    "{name} is signaling they need to go. People often hint before they leave — it's a polite way to give you room to say goodbye.",
+  ],
+  jordanAskingQuestion: [
+    "Notice how {name} asked a question? That's a common way to show interest and keep conversations balanced.",
+    "{name} asked you a question — that's how people show interest and keep the conversation balanced.",
+  ],
+  jordanSharingPersonal: [
+    "{name} shared something personal — this is an invitation for you to share too. It builds connection.",
+    "When {name} shares something about themselves, it's an invitation for you to share too.",
+  ],
+  jordanChangingTopic: [
+    "{name} shifted topics — this often happens naturally in conversations when one thread runs its course.",
+    "{name} moved on to something new — conversations naturally drift once a topic runs its course.",
+  ],
+};
+
+const TIP_STRINGS = new Map<string, TipStrings>([["en", EN]]);
+
+export const DEFAULT_TIP_LOCALE = "en";
+
+/**
+ * Add or extend a locale's strings. Variants are matched by index, so a
+ * translation should keep the English order (extra or missing variants wrap
+ * around).
+ */
+export function registerTipStrings(locale: string, strings: TipStrings) {
+  const key = locale.toLowerCase();
+  TIP_STRINGS.set(key, { ...TIP_STRINGS.get(key), ...strings });
+}
+
+export function isTipId(id: unknown): id is TipId {
+  return typeof id === "string" && Object.prototype.hasOwnProperty.call(TIPS, id);
+}
+
+export function getTip(id: TipId): TipDefinition {
+  return TIPS[id];
+}
+
+export function tipsInCategory(category: TipCategory): TipId[] {
+  return (Object.keys(TIPS) as TipId[]).filter(id => TIPS[id].category === category);
+}
+
+// Small stable string hash (FNV-1a), so variant assignment survives reloads
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Pick the phrasing of a tip for a session. Deterministic per seed and tip,
+ * so the same session keeps seeing the same wording; without a seed the
+ * first (reference) phrasing is used.
+ */
+export function pickTip(id: TipId, seed?: string): TipRef {
+  if (!seed) return { id, variant: 0 };
+  return { id, variant: hash(`${seed}:${id}`) % EN[id].length };
+}
+
+export interface RenderTipOptions {
+  // BCP 47 tag, e.g. "es-MX"; falls back to the base language, then English
+  locale?: string;
+  vars?: Record<string, string>;
+}
+
+function stringsFor(id: TipId, locale: string): string[] {
+  const tag = locale.toLowerCase();
+  return TIP_STRINGS.get(tag)?.[id] || TIP_STRINGS.get(tag.split("-")[0])?.[id] || EN[id];
+}
+
+export function renderTip(tip: TipId | TipRef, { locale = DEFAULT_TIP_LOCALE, vars = {} }: RenderTipOptions = {}): string {
+  const { id, variant } = typeof tip === "string" ? { id: tip, variant: 0 } : tip;
+  const variants = stringsFor(id, locale);
+  const text = variants[variant % variants.length];
+  const values: Record<string, string> = { name: "Jordan", ...vars };
+  return text.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
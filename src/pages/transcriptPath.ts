@@ -0,0 +1,42 @@
+/**
+ * Transcript Paths
+ *
+ * Each rewind (rewind-turn) ends the session's current branch and starts the
+ * next one; sessions.branches[k] records where rewind k went back to. Turn
+ * events are tagged with the branch they were recorded on, so a turn before
+ * the rewind point keeps the event from the branch it happened on. These
+ * helpers find the events that belong to one path, by the same rule as
+ * refresh_session_metadata_counts in the database.
+ */
+
+// What's needed of a turn_events row
+export interface PathEvent {
+  branch: number;
+  turn_index: number;
+}
+
+// What's needed of a sessions.branches entry
+export interface PathRewind {
+  at: number;
+}
+
+/**
+ * Whether an event is part of the path that was current on branch `path`
+ * (by default the session's current path): it happened on that branch or an
+ * earlier one, and no rewind in between went back to its message or before
+ */
+export function isOnPath(event: PathEvent, rewinds: PathRewind[], path = rewinds.length): boolean {
+  if (event.branch > path) return false;
+  return !rewinds.slice(event.branch, path).some(rewind => event.turn_index >= rewind.at);
+}
+
+/**
+ * A path's events by transcript index
+ */
+export function pathEvents<T extends PathEvent>(events: T[], rewinds: PathRewind[], path = rewinds.length): Record<number, T> {
+  const byIndex: Record<number, T> = {};
+  for (const event of events) {
+    if (isOnPath(event, rewinds, path)) byIndex[event.turn_index] = event;
+  }
+  return byIndex;
+}
@@ -0,0 +1,122 @@
+import { readSSEData } from "./llmAdapters";
+import type { TurnEvent, TurnHooks, TurnOutcome } from "./turnPipeline";
+import type { ReplySuggestions } from "./replySuggestions";
+import type { Phase } from "./conversationPhase";
+import type { Difficulty } from "./difficulty";
+
+/**
+ * Browser side of a learner turn. The whole pipeline (safety checks,
+ * coaching, Jordan's reply, moderation, transcript) runs in the jordan-turn
+ * edge function; this just sends the message and relays its events.
+ */
+
+export interface TurnSession {
+  sessionDbId: string;
+  sessionToken: string;
+}
+
+/**
+ * Run one turn on the server. turnId identifies the learner's message, so
+ * resending it with the same id can't add it to the transcript twice.
+ * Throws if the turn couldn't be run at all (network failure, invalid or
+ * ended session, turn already recorded).
+ */
+export async function requestTurn(
+  session: TurnSession,
+  turnId: string,
+  userText: string,
+  hooks: Pick<TurnHooks, "onUserTurn" | "onReplyDelta"> = {}
+): Promise<TurnOutcome> {
+  const TURN_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/jordan-turn`;
+
+  const resp = await fetch(TURN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...session, turnId, userText }),
+  });
+
+  if (!resp.ok || !resp.body) {
+    const error = await resp.text();
+    console.error("Turn request failed:", resp.status, error);
+    throw new Error("Turn failed");
+  }
+
+  for await (const payload of readSSEData(resp.body)) {
+    const event = JSON.parse(payload) as TurnEvent;
+    switch (event.type) {
+      case "userTurn":
+        hooks.onUserTurn?.(event.coachTip, event.coachChatMessage);
+        break;
+      case "partial":
+        hooks.onReplyDelta?.(event.text);
+        break;
+      case "outcome":
+        return event.outcome;
+      case "error":
+        console.error("Turn error:", event.error);
+        throw new Error("Turn failed");
+    }
+  }
+
+  throw new Error("Turn ended without an outcome");
+}
+
+/**
+ * Ask the suggest-reply function how the learner message at turnIndex (in
+ * the session transcript) could have been phrased better. Returns null if
+ * suggestions aren't available for it; throws if the request failed.
+ */
+export async function requestSuggestions(session: TurnSession, turnIndex: number): Promise<ReplySuggestions | null> {
+  const SUGGEST_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/suggest-reply`;
+
+  const resp = await fetch(SUGGEST_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...session, turnIndex }),
+  });
+
+  if (resp.status === 403) return null;
+  if (!resp.ok) {
+    const error = await resp.text();
+    console.error("Suggestion request failed:", resp.status, error);
+    throw new Error("Suggestions failed");
+  }
+  return await resp.json();
+}
+
+// Where the conversation stands after a rewind
+export interface RewindResult {
+  phase: Phase;
+  difficulty: Difficulty;
+}
+
+/**
+ * Rewind the session to just before the learner message at turnIndex (in
+ * the session transcript), so it can be sent differently. Throws if the
+ * rewind was refused or failed.
+ */
+export async function requestRewind(session: TurnSession, turnIndex: number): Promise<RewindResult> {
+  const REWIND_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/rewind-turn`;
+
+  const resp = await fetch(REWIND_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...session, turnIndex }),
+  });
+
+  if (!resp.ok) {
+    const error = await resp.text();
+    console.error("Rewind request failed:", resp.status, error);
+    throw new Error("Rewind failed");
+  }
+  return await resp.json();
+}
@@ -0,0 +1,440 @@
+import type { Scene, Severity } from "./constants.ts";
+import { detectTriggers, prioritize, shouldTerminateSession } from "./guardrails.ts";
+import { assessDistress, type DistressAssessment, type DistressTier } from "./distress.ts";
+import { buildSystemPrompt, chatOpts } from "./JordanEngine.ts";
+import { generateCoachTip, detectJordanBehavior, type CelebratedBehaviors, type CoachChatMessage } from "./coachingEngine.ts";
+import type { ChatAdapter, ChatMessage } from "./llmAdapters.ts";
+import { pickTip, type TipId, type TipRef, type TipTheme } from "./tipCatalog.ts";
+import { adjustDifficulty, DEFAULT_DIFFICULTY, type Difficulty } from "./difficulty.ts";
+import { getPersona } from "./personas.ts";
+import { getScenario } from "./scenarios.ts";
+import { advancePhase, phaseSignals, replayPhase, type PhaseState } from "./conversationPhase.ts";
+import { gradeExit, type ExitGrade } from "./exitGrading.ts";
+
+/**
+ * Turn Pipeline
+ *
+ * One learner turn, end to end: trigger detection → distress analysis →
+ * crisis analysis → coaching → Jordan's reply (with self-response retry) →
+ * moderation. Network services are injected so the same pipeline runs
+ * in the jordan-turn edge function and against scripted fixtures offline.
+ */
+
+export interface PipelineTurn {
+  role: "user" | "assistant" | "coach";
+  content: string;
+  // Coach tip shown with a user message
+  coachTipId?: TipId;
+}
+
+export interface CrisisAnalysisRequest {
+  recentMessages: Array<{ role: string; content: string }>;
+  triggerKeyword: string;
+  distressMetadata: {
+    tier: 1 | 2;
+    accumulatedTier2Count: number;
+    matchedKeywords: string[];
+  };
+}
+
+export interface CrisisAnalysis {
+  severity: "crisis" | "coaching" | "safe";
+  reason?: string;
+}
+
+export interface ModerationResult {
+  safe: boolean;
+  reason?: string;
+  finalResponse: string;
+}
+
+export interface TurnServices {
+  adapter: ChatAdapter;
+  // May throw; a failed analysis is treated as a crisis
+  analyzeCrisis(req: CrisisAnalysisRequest): Promise<CrisisAnalysis>;
+  moderate(reply: string, context: string): Promise<ModerationResult>;
+}
+
+export interface TurnInput {
+  userText: string;
+  history: PipelineTurn[];
+  scene: Scene;
+  interlocutor: "he" | "she" | "they";
+  // Persona id (personas.ts); defaults to Jordan
+  persona?: string;
+  cooldown: boolean;
+  celebratedBehaviors: CelebratedBehaviors;
+  // Picks tip phrasings (the session id, so a session keeps its variants);
+  // without one every tip uses its reference phrasing
+  tipSeed?: string;
+  // From the learner's profile, if they track progress
+  masteredSkills?: TipTheme[];
+  difficulty?: Difficulty;
+  // Let the level follow the learner's performance during the session
+  autoDifficulty?: boolean;
+  // Conversation phase before this message; rebuilt from history if missing
+  phase?: PhaseState;
+  // Exit practice: Jordan never ends the conversation, and the learner's
+  // goodbye is graded
+  exitPractice?: boolean;
+}
+
+// A coach chat message as shown: catalog tip, phrasing and style
+export type CoachMessage = TipRef & { type: CoachChatMessage["type"] };
+
+export interface TurnHooks {
+  streamingMode?: "buffered" | "optimistic";
+  // The user message cleared the safety checks; Jordan's reply is on its way
+  onUserTurn?(coachTip: TipRef | undefined, coachChatMessage: CoachMessage | undefined): void;
+  // Reply text so far (optimistic streaming only)
+  onReplyDelta?(partial: string): void;
+}
+
+/**
+ * Structured account of what the safety and coaching layers decided on a
+ * turn, stored as a turn_events row for the admin metrics
+ */
+export interface TurnRecord {
+  // Highest-priority trigger, plus every trigger kind that fired
+  eventKind: Severity;
+  triggerKinds: Severity[];
+  // Trigger keywords / PII pattern names and distress keywords that matched
+  matchedKeywords: string[];
+  distressTier: DistressTier | null;
+  // null if the message never went to crisis analysis
+  crisisVerdict: CrisisAnalysis["severity"] | "error" | null;
+  // null if no reply was moderated (crisis turns)
+  moderationVerdict: "safe" | "blocked" | null;
+  // Tip shown with the message and which phrasing, for A/B comparisons
+  coachTipId: TipId | null;
+  coachTipVariant: number | null;
+  // Learner message length in words
+  userWordCount: number;
+}
+
+export type TurnResult =
+  | { kind: "crisis"; analysis: CrisisAnalysis | null; record: TurnRecord }
+  | {
+      kind: "reply";
+      record: TurnRecord;
+      reply: string;
+      coachTip?: TipRef;
+      coachChatMessage?: CoachMessage;
+      celebratedBehavior?: keyof CelebratedBehaviors;
+      moderation: ModerationResult;
+      jordanInsight?: CoachMessage;
+      // Level for the following turns, when auto-adjust changed it
+      difficulty?: Difficulty;
+      // Phase Jordan replied in; pass it back as the next turn's phase
+      phase: PhaseState;
+      // The learner's exit, once they've left (exit practice only)
+      exitGrade?: ExitGrade;
+      generatorFailed: boolean;
+    };
+
+/**
+ * What the learner's browser gets to see of a turn: the approved reply and
+ * any coaching, never the raw moderation or crisis-analysis verdicts
+ */
+export type TurnOutcome =
+  | { kind: "crisis" }
+  | {
+      kind: "reply";
+      reply: string;
+      coachTip?: TipRef;
+      coachChatMessage?: CoachMessage;
+      celebratedBehavior?: keyof CelebratedBehaviors;
+      jordanInsight?: CoachMessage;
+      // Level for the following turns, when auto-adjust changed it
+      difficulty?: Difficulty;
+      phase: PhaseState;
+      exitGrade?: ExitGrade;
+      generatorFailed: boolean;
+    };
+
+// Events the jordan-turn function streams back, in order
+export type TurnEvent =
+  | { type: "userTurn"; coachTip?: TipRef; coachChatMessage?: CoachMessage }
+  | { type: "partial"; text: string }
+  | { type: "outcome"; outcome: TurnOutcome }
+  | { type: "error"; error: string };
+
+export function turnOutcome(result: TurnResult): TurnOutcome {
+  if (result.kind === "crisis") return { kind: "crisis" };
+  const { moderation, record, ...outcome } = result;
+  return outcome;
+}
+
+const GENERATOR_UNAVAILABLE_REPLY = "(Generator unavailable) Let's keep it simple—what's one thing you've been reading or watching lately?";
+
+const turnReminder = (name: string) => `IMPORTANT: Reply only to the learner's latest message. Stay in-role as ${name} (do NOT write as the learner). Do NOT repeat your introduction or name, and do NOT respond to your own previous messages (including your opening line). Do NOT address the learner as “${name}” or any other name unless they explicitly shared it. Start by acknowledging the learner's content.`;
+
+// Check if Jordan has ended the conversation (definitive goodbye)
+export function jordanHasEnded(history: PipelineTurn[]): boolean {
+  return history.slice(-2).some(h =>
+    h.role === "assistant" &&
+    /\b(bye|goodbye|see you around|take care|catch you later|have a good one|nice talking to you|good chatting)\b/i.test(h.content) &&
+    !/\?/.test(h.content)
+  );
+}
+
+export function needsSelfResponseRetry(text: string, name: string = getPersona().name): boolean {
+  const t = text.toLowerCase().trim();
+  const n = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return (
+    new RegExp(`\\b(i['’]?m|im)\\s+${n}\\s+too\\b`).test(t) ||
+    new RegExp(`\\b${n}\\s+for\\s+me\\s+too\\b`).test(t) ||
+    new RegExp(`^(hey|hi|hello)\\s+${n}\\b`).test(t) ||
+    new RegExp(`\\b(nice|great|good)\\s+to\\s+meet\\s+you[,! ]+${n}\\b`).test(t) ||
+    new RegExp(`\\bit['’]?s\\s+great\\s+to\\s+meet\\s+you[,! ]+${n}\\b`).test(t)
+  );
+}
+
+export interface DistressScreening {
+  // True if the message needs the LLM crisis analysis
+  shouldAnalyze: boolean;
+  distress: DistressAssessment;
+  request: CrisisAnalysisRequest;
+}
+
+/**
+ * Keyword layer of crisis detection. Decides whether a message goes to the
+ * LLM crisis analysis and builds the request it would get. Runs offline.
+ */
+export function screenForDistress(userText: string, history: PipelineTurn[]): DistressScreening {
+  const main = prioritize(detectTriggers(userText));
+  const distress = assessDistress(userText, history);
+  // Crisis-relevant keywords only (Tier 1 and 2)
+  const matchedKeywords = distress.matches.filter(m => m.tier === distress.tier && m.tier <= 2).map(m => m.keyword);
+
+  // Trigger LLM analysis if:
+  // - Tier 1 hit (severity = 'high'), OR
+  // - Accumulated Tier 2 signals (severity = 'low'), OR
+  // - Legacy keyword match (shouldTerminateSession)
+  const shouldAnalyze =
+    distress.level === "high" ||
+    distress.level === "low" ||
+    shouldTerminateSession(main.kind);
+
+  // Build recent conversation context with Tier 2 signal metadata
+  const recentMessages = history.slice(-5).map(h => ({ role: h.role, content: h.content }));
+  recentMessages.push({ role: "user", content: userText });
+
+  return {
+    shouldAnalyze,
+    distress,
+    request: {
+      recentMessages,
+      triggerKeyword: matchedKeywords.join(", ") || "distress signal",
+      distressMetadata: {
+        tier: distress.level === "high" ? 1 : 2,
+        accumulatedTier2Count: distress.trajectory.tier2Count + (distress.tier === 2 ? 1 : 0),
+        matchedKeywords
+      }
+    }
+  };
+}
+
+export async function runTurn(input: TurnInput, services: TurnServices, hooks: TurnHooks = {}): Promise<TurnResult> {
+  const { userText, history, scene, interlocutor, cooldown, celebratedBehaviors, tipSeed, masteredSkills, autoDifficulty, exitPractice } = input;
+  const difficulty = input.difficulty ?? DEFAULT_DIFFICULTY;
+  const persona = getPersona(input.persona);
+  const bounds = getScenario(scene).phaseThresholds;
+  const previousPhase = input.phase ?? replayPhase(history, bounds, exitPractice);
+
+  // 1) Detect triggers on user text
+  const triggers = detectTriggers(userText);
+  const main = prioritize(triggers);
+
+  // Coach feedback (may be set by crisis analysis or coaching engine)
+  let coachTipId: TipId | undefined;
+  let coachChatMessage: CoachChatMessage | undefined;
+  let celebratedBehavior: keyof CelebratedBehaviors | undefined;
+
+  // 2) Three-tiered distress analysis (Manus Research Implementation)
+  const screening = screenForDistress(userText, history);
+
+  const record: TurnRecord = {
+    eventKind: main.kind,
+    triggerKinds: triggers.map(t => t.kind).filter(kind => kind !== "NONE"),
+    matchedKeywords: [...new Set([
+      ...triggers.flatMap(t => t.matched),
+      ...screening.distress.matches.map(m => m.keyword),
+    ])],
+    distressTier: screening.distress.tier,
+    crisisVerdict: null,
+    moderationVerdict: null,
+    coachTipId: null,
+    coachTipVariant: null,
+    userWordCount: userText.trim().split(/\s+/).filter(Boolean).length,
+  };
+
+  if (screening.shouldAnalyze) {
+    let analysis: CrisisAnalysis;
+    try {
+      analysis = await services.analyzeCrisis(screening.request);
+    } catch (err) {
+      console.error("Failed to analyze crisis context:", err);
+      // Fail safe: crisis intervention if analysis fails
+      return { kind: "crisis", analysis: null, record: { ...record, crisisVerdict: "error" } };
+    }
+
+    record.crisisVerdict = analysis.severity;
+
+    if (analysis.severity === "crisis") {
+      // Severe or persistent distress detected - the crisis modal takes over
+      return { kind: "crisis", analysis, record };
+    } else if (analysis.severity === "coaching") {
+      // First mention or academic discussion - add coaching tip but continue conversation
+      coachTipId = "heavyTopic";
+    }
+    // If "safe", continue normally (no intervention)
+  }
+
+  // 3) Where this message moves the conversation (conversationPhase.ts)
+  const lastReply = history.filter(h => h.role === "assistant").pop()?.content;
+  const phase = advancePhase(previousPhase, phaseSignals(userText, lastReply), bounds, exitPractice);
+
+  // In exit practice, a finished exit gets graded instead of the usual coaching
+  const exitGrade = exitPractice
+    ? gradeExit([...history.filter(h => h.role === "user").map(h => h.content), userText], phase)
+    : undefined;
+
+  if (!coachTipId && exitGrade) {
+    coachChatMessage = { tipId: exitGrade.tipId, type: exitGrade.score === 3 ? "celebration" : "insight" };
+    if (exitGrade.score === 3 && !celebratedBehaviors.gracefulClose) celebratedBehavior = "gracefulClose";
+  }
+
+  // 4) Generate coaching tip using refined coaching engine
+  // Note: coachTipId may already be set by crisis analysis above
+  if (!coachTipId && !exitGrade) {
+    // Filter out coach messages for coaching engine
+    const conversationHistory = history.filter(h => h.role !== "coach") as { role: "user" | "assistant"; content: string; coachTipId?: TipId }[];
+
+    const coachResult = generateCoachTip({
+      userText,
+      history: conversationHistory,
+      triggerKind: main.kind,
+      cooldown,
+      jordanEndedConversation: jordanHasEnded(history),
+      celebratedBehaviors,
+      scene,
+      masteredSkills,
+      difficulty,
+      persona: persona.id,
+      phase: previousPhase.phase
+    });
+
+    coachTipId = coachResult.tipId;
+    coachChatMessage = coachResult.chatMessage;
+    celebratedBehavior = coachResult.celebratedBehavior;
+  }
+
+  // Pick this session's phrasing of whatever the learner will see
+  const coachTip = coachTipId && pickTip(coachTipId, tipSeed);
+  const coachMessage = coachChatMessage && { ...pickTip(coachChatMessage.tipId, tipSeed), type: coachChatMessage.type };
+
+  // 5) User message is cleared to show before Jordan responds
+  hooks.onUserTurn?.(coachTip, coachMessage);
+
+  // 6) Build messages for LLM, in the phase this message moved the conversation to
+  // Filter out coach messages for LLM
+  const conversationOnly = history.filter(h => h.role !== "coach");
+  const sys = buildSystemPrompt(scene, interlocutor, phase, difficulty, persona, exitPractice);
+
+  const chatHistory = conversationOnly.map(t => ({
+    role: t.role as "user" | "assistant",
+    content: t.content,
+  }));
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: sys },
+    ...chatHistory,
+    { role: "system", content: turnReminder(persona.name) },
+    { role: "user", content: userText },
+  ];
+
+  // 7) Call adapter
+  const { adapter } = services;
+  const opts = chatOpts({ scene, interlocutor });
+
+  // Streamed first attempt. Optimistic scenes render tokens as they arrive;
+  // buffered scenes keep them hidden until moderation passes.
+  const firstAttempt = async () => {
+    if (!adapter.stream) return await adapter.chat(messages, opts);
+
+    let text = "";
+    for await (const delta of adapter.stream(messages, opts)) {
+      text += delta;
+      if (hooks.streamingMode === "optimistic") hooks.onReplyDelta?.(text);
+    }
+    return text || "Let's keep chatting — what's on your mind?";
+  };
+
+  let reply = "";
+  let generatorFailed = false;
+  try {
+    reply = await firstAttempt();
+
+    // Targeted one-time retry if Jordan role-flips or incorrectly addresses the learner by Jordan's own name.
+    if (needsSelfResponseRetry(reply, persona.name)) {
+      const fixSystem = `CRITICAL FIX: You are ${persona.name}. The learner did NOT provide their name. Never address the learner as “${persona.name}” or any name (avoid name greetings like “Hey ${persona.name}” / “Nice to meet you, ${persona.name}”). Do NOT respond to your own opening line. Respond ONLY to the learner message: "${userText}".`;
+
+      const retryMessages: ChatMessage[] = [
+        ...messages.slice(0, -1),
+        { role: "system", content: fixSystem },
+        messages[messages.length - 1],
+      ];
+
+      reply = await adapter.chat(retryMessages, opts);
+    }
+  } catch (e) {
+    console.error("Jordan generator failed:", e);
+    generatorFailed = true;
+    reply = GENERATOR_UNAVAILABLE_REPLY;
+  }
+
+  // 8) Moderate Jordan's response before showing to user
+  const conversationContext = history.slice(-5).map(h => `${h.role}: ${h.content}`).join("\n");
+  const moderation = await services.moderate(reply, conversationContext);
+
+  if (!moderation.safe) {
+    console.warn("Response blocked by moderation:", moderation.reason);
+    reply = moderation.finalResponse;
+  }
+
+  // 9) Check if Jordan is exhibiting a behavior worth explaining
+  const jordanInsight = detectJordanBehavior([
+    ...conversationOnly as { role: "user" | "assistant"; content: string; coachTipId?: TipId }[],
+    { role: "user", content: userText, coachTipId },
+    { role: "assistant", content: reply },
+  ]);
+
+  // 10) Step the level up or down if the learner asked for automatic difficulty
+  const nextDifficulty = autoDifficulty
+    ? adjustDifficulty(difficulty, [
+        ...history.filter(h => h.role === "user"),
+        { content: userText, coachTipId },
+      ])
+    : difficulty;
+
+  return {
+    kind: "reply",
+    record: {
+      ...record,
+      moderationVerdict: moderation.safe ? "safe" : "blocked",
+      coachTipId: coachTip?.id ?? null,
+      coachTipVariant: coachTip?.variant ?? null,
+    },
+    reply,
+    coachTip,
+    coachChatMessage: coachMessage,
+    celebratedBehavior,
+    moderation,
+    jordanInsight: jordanInsight && { ...pickTip(jordanInsight.tipId, tipSeed), type: jordanInsight.type },
+    difficulty: nextDifficulty !== difficulty ? nextDifficulty : undefined,
+    phase,
+    exitGrade,
+    generatorFailed,
+  };
+}
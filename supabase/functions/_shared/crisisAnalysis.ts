@@ -0,0 +1,95 @@
+import { chatCompletion, completionText } from "./llmProvider.ts";
+import type { CrisisAnalysis, CrisisAnalysisRequest } from "../../../src/pages/turnPipeline.ts";
+
+/**
+ * LLM crisis-context analysis for jordan-turn's pipeline. Fails safe: a
+ * provider or parse failure is a crisis.
+ */
+export async function analyzeCrisisContext(req: CrisisAnalysisRequest): Promise<CrisisAnalysis> {
+  const { recentMessages, triggerKeyword, distressMetadata } = req;
+
+  // Build context from recent messages
+  const conversationContext = recentMessages
+    .map(msg => `${msg.role === "user" ? "User" : "Jordan"}: ${msg.content}`)
+    .join("\n");
+
+  const systemPrompt = `You are a crisis detection system for a social anxiety practice app.
+
+DISTRESS METADATA:
+- Detection Tier: ${distressMetadata?.tier || "unknown"} (1 = explicit crisis language, 2 = accumulated ambiguous signals)
+- Accumulated Tier 2 Count: ${distressMetadata?.accumulatedTier2Count || 0}
+- Matched Keywords: ${distressMetadata?.matchedKeywords?.join(", ") || triggerKeyword}
+
+Your job: Analyze the conversation context and determine the appropriate intervention level:
+
+1. "crisis" - IMMEDIATE intervention needed (show modal):
+   - Tier 1 keywords with personal context (not academic)
+   - Tier 2 keywords with clear escalation pattern
+   - User expressing PERSONAL suicidal ideation about THEMSELVES
+   - Active self-harm thoughts or plans
+   - Multiple Tier 2 signals showing descending emotional trajectory
+
+2. "coaching" - Gentle coaching tip needed:
+   - FIRST mention of heavy/personal topics
+   - Single Tier 2 signal without concerning context
+   - Academic or intellectual discussion about these topics
+   - Vague or indirect language that might indicate distress but isn't explicit
+
+3. "safe" - No intervention needed:
+   - Complete false positive (word used in unrelated context)
+   - Clearly casual or metaphorical use
+   - Tier 2 keyword in positive context (e.g., "I found my inspiration to stay motivated!")
+
+RECENT CONVERSATION:
+${conversationContext}
+
+CRITICAL RULES:
+- Tier 1 + personal context → likely "crisis"
+- Multiple Tier 2 signals → likely "crisis" (user is escalating)
+- Single Tier 2 in first message → "coaching" (give gentle warning)
+- Context matters: "inspiration to stay" followed by "bye forever" = CRISIS pattern
+- Look for emotional trajectory: descending mood = higher risk
+
+Return ONLY a JSON object:
+{
+  "severity": "crisis" | "coaching" | "safe",
+  "reason": "Brief explanation focusing on tier level, accumulation, and emotional trajectory"
+}`;
+
+  const response = await chatCompletion({
+    purpose: "crisis",
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: "Analyze this conversation and return the severity level." }
+    ],
+    temperature: 0.3,
+    max_tokens: 200,
+    timeoutMs: 10000,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("LLM provider error:", response.status, errorText);
+    // Fail safe: assume crisis if LLM fails
+    return { severity: "crisis", reason: "LLM analysis failed, defaulting to safe" };
+  }
+
+  const data = await response.json();
+  const reply = completionText(data);
+  
+  // Parse the JSON response
+  let analysis: CrisisAnalysis;
+  try {
+    // Try to extract JSON from markdown if present
+    const jsonMatch = reply.match(/```json\s*(\{[\s\S]*?\})\s*```/) || reply.match(/(\{[\s\S]*?\})/);
+    const jsonStr = jsonMatch ? jsonMatch[1] : reply;
+    analysis = JSON.parse(jsonStr);
+  } catch (e) {
+    console.error("Failed to parse LLM response:", reply);
+    // Default to crisis if we can't parse
+    analysis = { severity: "crisis", reason: "Failed to parse LLM response" };
+  }
+
+  console.log("Crisis context analysis:", analysis);
+  return analysis;
+}
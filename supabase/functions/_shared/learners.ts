@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deriveLearnerProfile, profileFromRow, type LearnerProfile } from "../../../src/pages/learnerProfile.ts";
+
+/**
+ * Learner profiles for learners who opted into progress tracking. Profiles
+ * are rebuilt from the learner's saved sessions (or, once a transcript is
+ * purged, its kept skill tally), never edited in place.
+ */
+
+// Enough for a semester of regular practice
+const MAX_PROFILE_SESSIONS = 500;
+
+export async function loadLearnerProfile(supabase: SupabaseClient, learnerId: string): Promise<LearnerProfile> {
+  const { data, error } = await supabase
+    .from("learner_profiles")
+    .select("session_count, skills, earned_behaviors, progress")
+    .eq("user_id", learnerId)
+    .maybeSingle();
+
+  if (error) console.error("Failed to load learner profile:", error);
+  return profileFromRow(data);
+}
+
+/**
+ * Recompute a learner's profile from their sessions and save it
+ */
+export async function refreshLearnerProfile(supabase: SupabaseClient, learnerId: string) {
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("id, started_at, transcript, skill_tally")
+    .eq("learner_id", learnerId)
+    .order("started_at", { ascending: false })
+    .limit(MAX_PROFILE_SESSIONS);
+
+  if (error) {
+    console.error("Failed to load learner sessions:", error);
+    return;
+  }
+
+  const profile = deriveLearnerProfile(
+    (data || []).reverse().map(s => ({ id: s.id, startedAt: s.started_at, transcript: s.transcript, tally: s.skill_tally }))
+  );
+
+  const { error: upsertError } = await supabase.from("learner_profiles").upsert({
+    user_id: learnerId,
+    session_count: profile.sessionCount,
+    skills: profile.skills,
+    earned_behaviors: profile.earnedBehaviors,
+    progress: profile.progress,
+    updated_at: new Date().toISOString(),
+  });
+  if (upsertError) console.error("Failed to save learner profile:", upsertError);
+}
@@ -0,0 +1,103 @@
+/**
+ * Shared LLM provider for edge functions.
+ *
+ * Any OpenAI-compatible /v1/chat/completions endpoint works. Configure with:
+ *   LLM_BASE_URL              default: Lovable AI gateway
+ *   LLM_API_KEY               falls back to LOVABLE_API_KEY; optional for local servers
+ *   LLM_MODEL                 default: google/gemini-2.5-flash
+ *   LLM_MODEL_<PURPOSE>       per-purpose override, e.g. LLM_MODEL_MODERATION
+ *
+ * For offline development point LLM_BASE_URL at a local llama.cpp or Ollama
+ * server (e.g. http://host.docker.internal:11434/v1).
+ */
+
+export type LlmPurpose = "chat" | "moderation" | "crisis" | "suggestion";
+
+export interface ChatCompletionRequest {
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+  purpose: LlmPurpose;
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  timeoutMs?: number;
+}
+
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_MODEL = "google/gemini-2.5-flash";
+
+export function getProviderConfig(purpose: LlmPurpose) {
+  const baseUrl = (Deno.env.get("LLM_BASE_URL") || LOVABLE_GATEWAY_URL).replace(/\/+$/, "");
+  const apiKey = Deno.env.get("LLM_API_KEY") || Deno.env.get("LOVABLE_API_KEY");
+
+  if (!apiKey && baseUrl === LOVABLE_GATEWAY_URL) {
+    throw new Error("LOVABLE_API_KEY not configured");
+  }
+
+  const model = Deno.env.get(`LLM_MODEL_${purpose.toUpperCase()}`) || Deno.env.get("LLM_MODEL") || DEFAULT_MODEL;
+  return { baseUrl, apiKey, model };
+}
+
+/**
+ * POST to the provider's chat completions endpoint. Returns the raw Response
+ * so callers keep control over error handling and streaming.
+ */
+export async function chatCompletion(req: ChatCompletionRequest): Promise<Response> {
+  const { baseUrl, apiKey, model } = getProviderConfig(req.purpose);
+
+  return await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: req.model || model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.max_tokens,
+      stream: req.stream || false,
+    }),
+    signal: AbortSignal.timeout(req.timeoutMs || 25000),
+  });
+}
+
+/**
+ * Pull the reply text out of a non-streaming completion body
+ */
+export function completionText(data: { choices?: Array<{ message?: { content?: string } }> }): string {
+  return data.choices?.[0]?.message?.content || "";
+}
+
+/**
+ * Yield reply text deltas from a streaming completion body (OpenAI-style SSE chunks)
+ */
+export async function* completionDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE events are newline-delimited; keep any partial line for the next chunk
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {
+        console.warn("Skipping malformed stream chunk:", payload);
+      }
+    }
+  }
+}
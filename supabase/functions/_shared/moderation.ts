@@ -0,0 +1,164 @@
+import { chatCompletion, completionText } from "./llmProvider.ts";
+
+export interface ModerationVerdict {
+  safe: boolean;
+  reason?: string;
+}
+
+/**
+ * LLM moderation of one of Jordan's replies, for jordan-turn's pipeline.
+ * Fails safe: any error blocks the reply.
+ */
+export async function moderateResponse(response: string, context: string): Promise<ModerationVerdict> {
+  try {
+    const moderationPrompt = `You are a content moderator for a social anxiety practice tool called SkillBuilder: Jordan.
+
+Your job: Analyze Jordan's response and determine if it's SAFE to show to a vulnerable user (college student with social anxiety).
+
+JORDAN'S RESPONSE: "${response}"
+
+CONVERSATION CONTEXT (last few exchanges): "${context}"
+
+CHECK FOR THESE RED FLAGS:
+1. PII REQUESTS: Asking for phone numbers, emails, addresses, full names, social media handles
+2. BOUNDARY VIOLATIONS: Acting like a therapist, giving medical/legal/financial advice, diagnosing conditions
+3. CRISIS ENGAGEMENT: Discussing suicide, self-harm, violence in detail
+4. PROVIDING CRISIS RESOURCES: Mentioning 988, crisis hotlines, suicide prevention lines, therapy recommendations - Jordan should NOT provide these, the system handles this separately
+5. INAPPROPRIATE CONTENT: Sexual content, violent imagery, discriminatory language, offensive stereotypes
+6. BREAKING CHARACTER: Mentioning being an AI, discussing system prompts, technical details
+
+IMPORTANT CONTEXT:
+- Jordan asking "What brings you here?" or "What do you study?" is SAFE (normal small talk)
+- Jordan sharing general info about books/coffee/campus is SAFE
+- Jordan asking follow-up questions about hobbies/interests is SAFE
+- Jordan being encouraging ("That's cool!" "Tell me more!") is SAFE
+- Jordan naturally empathizing ("That sounds tough") and redirecting to lighter topics is SAFE
+- Jordan should NEVER mention 988, crisis hotlines, or therapy - this is UNSAFE (handled by system modal instead)
+
+Return JSON only:
+{
+  "safe": true/false,
+  "reason": "Brief explanation (if unsafe, max 50 words)"
+}
+
+Examples:
+- "What's your phone number so we can hang out?" → {"safe": false, "reason": "PII request - asking for phone number"}
+- "You sound depressed, have you considered therapy?" → {"safe": false, "reason": "Boundary violation - acting like therapist"}
+- "If you're struggling, you can call 988." → {"safe": false, "reason": "Crisis resources - Jordan should not mention hotlines"}
+- "What brings you to the bookstore?" → {"safe": true, "reason": ""}
+- "That sounds tough. Want to talk about something lighter?" → {"safe": true, "reason": ""}
+`;
+
+    const aiResponse = await chatCompletion({
+      purpose: "moderation",
+      messages: [{ role: "user", content: moderationPrompt }],
+      temperature: 0.3, // Lower temperature for consistent moderation
+      max_tokens: 150,
+      timeoutMs: 25000,
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error("LLM provider error:", aiResponse.status, errorText);
+      throw new Error(`LLM provider error: ${aiResponse.status}`);
+    }
+
+    const aiData = await aiResponse.json();
+    let contentText = completionText(aiData) || "{}";
+    
+    // Strip markdown code blocks if present
+    contentText = contentText.trim();
+    if (contentText.startsWith("```json")) {
+      contentText = contentText.replace(/^```json\s*/, "").replace(/\s*```$/, "");
+    } else if (contentText.startsWith("```")) {
+      contentText = contentText.replace(/^```\s*/, "").replace(/\s*```$/, "");
+    }
+    
+    // Parse JSON response
+    let moderationResult: ModerationVerdict;
+    try {
+      moderationResult = JSON.parse(contentText.trim());
+    } catch (parseError) {
+      console.error("Failed to parse moderation response:", contentText);
+      // Fail-safe: If can't parse, assume unsafe
+      moderationResult = { safe: false, reason: "Moderation parsing error" };
+    }
+
+    console.log("Moderation result:", moderationResult);
+    return moderationResult;
+  } catch (error) {
+    console.error("Moderation error:", error);
+    // Fail-safe: If moderation fails, assume unsafe (strict default)
+    return { safe: false, reason: "Moderation system error - blocked for safety" };
+  }
+}
+
+/**
+ * LLM moderation of suggested rephrasings of a learner's message, for the
+ * suggest-reply function. Returns one verdict per suggestion, in order.
+ * Fails safe: any error blocks them all.
+ */
+export async function moderateSuggestions(suggestions: string[], context: string): Promise<ModerationVerdict[]> {
+  const blockAll = (reason: string) => suggestions.map(() => ({ safe: false, reason }));
+
+  try {
+    const moderationPrompt = `You are a content moderator for a social anxiety practice tool called SkillBuilder: Jordan.
+
+A coach has suggested ways a learner (college student with social anxiety) could phrase their message in a practice small-talk conversation. Decide for each suggestion whether it's SAFE to show the learner as an example to follow.
+
+SUGGESTIONS:
+${suggestions.map((s, i) => `${i + 1}. "${s}"`).join("\n")}
+
+CONVERSATION CONTEXT (last few exchanges): "${context}"
+
+A suggestion is UNSAFE if it:
+1. SHARES OR ASKS FOR PII: phone numbers, emails, addresses, full names, social media handles
+2. RAISES HEAVY TOPICS: suicide, self-harm, violence, abuse, crisis resources, therapy
+3. IS INAPPROPRIATE: sexual content, flirting pressure, discriminatory language, insults, offensive stereotypes
+4. IS MANIPULATIVE OR DISHONEST: pressuring, guilt-tripping, lying to impress
+5. BREAKS THE FRAME: mentions AI, prompts or the app itself
+
+Friendly small talk, questions about studies, hobbies or the scene, sharing light personal details, [placeholders] and polite goodbyes are SAFE.
+
+Return JSON only, one verdict per suggestion in the same order:
+{
+  "verdicts": [{ "safe": true/false, "reason": "Brief explanation (if unsafe, max 50 words)" }]
+}`;
+
+    const aiResponse = await chatCompletion({
+      purpose: "moderation",
+      messages: [{ role: "user", content: moderationPrompt }],
+      temperature: 0.3,
+      max_tokens: 300,
+      timeoutMs: 25000,
+    });
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error("LLM provider error:", aiResponse.status, errorText);
+      return blockAll("Moderation system error - blocked for safety");
+    }
+
+    const contentText = completionText(await aiResponse.json()).trim()
+      .replace(/^```(json)?\s*/, "")
+      .replace(/\s*```$/, "");
+
+    let verdicts: ModerationVerdict[];
+    try {
+      verdicts = JSON.parse(contentText).verdicts;
+    } catch {
+      console.error("Failed to parse suggestion moderation response:", contentText);
+      return blockAll("Moderation parsing error");
+    }
+
+    // A missing or malformed verdict blocks its suggestion
+    const results = suggestions.map((_, i) =>
+      verdicts?.[i]?.safe === true ? { safe: true } : { safe: false, reason: verdicts?.[i]?.reason || "No verdict" }
+    );
+    console.log("Suggestion moderation results:", results);
+    return results;
+  } catch (error) {
+    console.error("Suggestion moderation error:", error);
+    return blockAll("Moderation system error - blocked for safety");
+  }
+}
@@ -0,0 +1,24 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { registerScenario, resetScenarios } from "../../../src/pages/scenarios.ts";
+
+/**
+ * Rebuild the scenario registry from the built-ins plus the admin-published
+ * packs, which can add scenes or replace built-ins. Runs on every request:
+ * the registry outlives requests in a warm isolate, and a pack unpublished
+ * since the last load must not linger.
+ */
+export async function loadPublishedScenarios(supabase: SupabaseClient) {
+  const { data, error } = await supabase.from("scenarios").select("slug, pack").eq("status", "published");
+  if (error) {
+    console.error("Failed to load scenarios:", error);
+    return;
+  }
+  resetScenarios();
+  for (const row of data || []) {
+    try {
+      registerScenario(row.pack);
+    } catch (err) {
+      console.error(`Skipping invalid scenario pack "${row.slug}":`, err);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PipelineTurn } from "../../../src/pages/turnPipeline.ts";
+import { isTipId, type TipRef } from "../../../src/pages/tipCatalog.ts";
+import { redactPii } from "../../../src/pages/guardrails.ts";
+import type { ExitGrade } from "../../../src/pages/exitGrading.ts";
+import type { TurnSnapshot, TurnState } from "./turnState.ts";
+
+/**
+ * Session checks shared by functions that act on a learner's behalf.
+ * Most learners are anonymous, so the session id + token pair handed out
+ * when the session was created is the credential a caller has.
+ */
+
+export interface SessionRow {
+  id: string;
+  scene: string;
+  // Persona id (src/pages/personas.ts)
+  persona: string;
+  interlocutor: string;
+  transcript: unknown;
+  metadata: Record<string, unknown> | null;
+  crisis_detected: boolean | null;
+  ended_at: string | null;
+  // Set if the learner tracks progress (see learners.ts)
+  learner_id: string | null;
+  // Starting level, and whether it may change mid-session (see difficulty.ts)
+  difficulty: string;
+  auto_difficulty: boolean;
+  // The learner must end the conversation themselves (see exitGrading.ts)
+  exit_practice: boolean;
+  // Paths the learner rewound away from, oldest first
+  branches: TranscriptBranch[] | null;
+}
+
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+/**
+ * Look up a session by id and token. Returns null if either is missing or
+ * they don't match, so callers can answer 401 without leaking which.
+ */
+export async function findSession(
+  supabase: SupabaseClient,
+  sessionDbId: unknown,
+  sessionToken: unknown
+): Promise<SessionRow | null> {
+  if (typeof sessionDbId !== "string" || typeof sessionToken !== "string" || !sessionDbId || !sessionToken) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("id, scene, persona, interlocutor, transcript, metadata, crisis_detected, ended_at, learner_id, difficulty, auto_difficulty, exit_practice, branches")
+    .eq("id", sessionDbId)
+    .eq("session_token", sessionToken)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Session lookup failed:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * A session that can still take turns: not ended and no crisis detected
+ */
+export function isSessionOpen(session: SessionRow): boolean {
+  return !session.ended_at && !session.crisis_detected;
+}
+
+// Coach text is stored in English for reading; coachTip carries the catalog
+// tip (on user turns the tip shown with the message, on coach turns the
+// message itself)
+export interface TranscriptTurn {
+  role: PipelineTurn["role"];
+  content: string;
+  coachTip: TipRef | null;
+}
+
+// Older transcripts stored tip text; only catalog tips are carried over
+const readTip = (tip: unknown): TipRef | null =>
+  tip && typeof tip === "object" && isTipId((tip as TipRef).id)
+    ? { id: (tip as TipRef).id, variant: Number((tip as TipRef).variant) || 0 }
+    : null;
+
+export function readTranscript(session: SessionRow): TranscriptTurn[] {
+  if (!Array.isArray(session.transcript)) return [];
+  return session.transcript
+    .filter(t => t && typeof t.content === "string" && ["user", "assistant", "coach"].includes(t.role))
+    .map(t => ({ role: t.role, content: t.content, coachTip: readTip(t.coachTip) }));
+}
+
+// A transcript turn as stored in session_turns, with what the transcript
+// itself doesn't keep
+export interface SessionTurn extends TranscriptTurn {
+  coachType?: "celebration" | "insight";
+  // Assistant turns produced by the pipeline
+  latencyMs?: number;
+  model?: string;
+  moderationVerdict?: "safe" | "blocked" | null;
+}
+
+/**
+ * Whether the rows for a client turn id have already been appended, i.e.
+ * the request is a retry of a turn that ran
+ */
+export async function isTurnRecorded(supabase: SupabaseClient, session: SessionRow, turnId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("session_turns")
+    .select("id", { count: "exact", head: true })
+    .eq("session_id", session.id)
+    .eq("turn_id", turnId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+// What a turn leaves besides its rows: the next turn state with the snapshot
+// to rewind to, or a crisis, which ends the session
+export type TurnOutcomeWrite =
+  | { crisis: true }
+  | { crisis?: false; turnState: TurnState; snapshot: TurnSnapshot; exitGrade?: ExitGrade };
+
+/**
+ * Append the turns one learner message produced at the end of the transcript
+ * and save what the turn left, through the save_turn database function. It
+ * holds the session row for both, and fails with PT409 if a rewind or another
+ * turn changed the branch or transcript length since the session was read.
+ * A trigger rebuilds sessions.transcript from the rows. Contact details and
+ * addresses are redacted before they're stored.
+ */
+export async function saveTurn(
+  supabase: SupabaseClient,
+  session: SessionRow,
+  turnId: string,
+  position: number,
+  turns: SessionTurn[],
+  outcome: TurnOutcomeWrite
+): Promise<void> {
+  const { error } = await supabase.rpc("save_turn", {
+    _session_id: session.id,
+    _turn_id: turnId,
+    _branch: currentBranch(session),
+    _position: position,
+    _turns: turns.map(turn => ({
+      role: turn.role,
+      content: redactPii(turn.content).text,
+      coach_tip_id: turn.coachTip?.id ?? null,
+      coach_tip_variant: turn.coachTip?.variant ?? null,
+      coach_type: turn.coachType ?? null,
+      latency_ms: turn.latencyMs ?? null,
+      model: turn.model ?? null,
+      moderation_verdict: turn.moderationVerdict ?? null,
+    })),
+    ...(!outcome.crisis && {
+      _turn_state: outcome.turnState,
+      _snapshot: outcome.snapshot,
+      _exit_grade: outcome.exitGrade ?? null,
+    }),
+  });
+  if (error) throw error;
+}
+
+// The transcript from a retried learner message on, as it was when the
+// learner rewound to that message
+export interface TranscriptBranch {
+  // Transcript index of the retried message
+  at: number;
+  rewoundAt: string;
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Branch number of the session's current path: 0 until the first rewind.
+ * turn_events rows are tagged with it, so each path keeps its own events.
+ */
+export function currentBranch(session: SessionRow): number {
+  return Array.isArray(session.branches) ? session.branches.length : 0;
+}
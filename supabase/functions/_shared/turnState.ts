@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadLearnerProfile } from "./learners.ts";
+import type { SessionRow } from "./sessions.ts";
+import type { CelebratedBehaviors } from "../../../src/pages/coachingEngine.ts";
+import { masteredSkills, type Skill } from "../../../src/pages/learnerProfile.ts";
+import { DEFAULT_DIFFICULTY, isDifficulty, type Difficulty } from "../../../src/pages/difficulty.ts";
+import type { PhaseState } from "../../../src/pages/conversationPhase.ts";
+import type { ExitGrade } from "../../../src/pages/exitGrading.ts";
+
+/**
+ * Turn pipeline state kept with a session between turns, shared by the
+ * jordan-turn and rewind-turn functions
+ */
+
+// Pipeline state carried between turns, kept in sessions.metadata.turnState
+export interface TurnState {
+  cooldown: boolean;
+  celebratedBehaviors: CelebratedBehaviors;
+  // Fixed for the session from the learner's profile at its first turn
+  masteredSkills: Skill[];
+  // Starts at the level chosen in setup; moves if the session auto-adjusts
+  difficulty: Difficulty;
+  // Missing for sessions saved before phases were tracked; the pipeline
+  // rebuilds it from the transcript
+  phase?: PhaseState;
+}
+
+export const INITIAL_TURN_STATE: TurnState = {
+  cooldown: false,
+  celebratedBehaviors: {
+    askedFirstQuestion: false,
+    sharedPersonally: false,
+    activeListening: false,
+    gracefulClose: false,
+    followedSuggestion: false,
+    foundCommonGround: false,
+    usedContextClues: false,
+  },
+  masteredSkills: [],
+  difficulty: DEFAULT_DIFFICULTY,
+};
+
+/**
+ * State for a session's first turn. Learners who track progress start from
+ * their profile: mastered skills aren't coached and behaviors they've
+ * already earned aren't celebrated again.
+ */
+export async function initialTurnState(supabase: SupabaseClient, session: SessionRow): Promise<TurnState> {
+  const difficulty = isDifficulty(session.difficulty) ? session.difficulty : DEFAULT_DIFFICULTY;
+  if (!session.learner_id) return { ...INITIAL_TURN_STATE, difficulty };
+
+  const profile = await loadLearnerProfile(supabase, session.learner_id);
+  const celebratedBehaviors = { ...INITIAL_TURN_STATE.celebratedBehaviors };
+  for (const behavior of profile.earnedBehaviors) {
+    if (behavior in celebratedBehaviors) celebratedBehaviors[behavior] = true;
+  }
+  return { cooldown: false, celebratedBehaviors, masteredSkills: masteredSkills(profile), difficulty };
+}
+
+// Session state as it was before the learner message at a transcript index,
+// kept in sessions.metadata.snapshots so a rewind can restore it
+export interface TurnSnapshot {
+  turnState: TurnState;
+  exitGrade?: ExitGrade;
+}
+
+export type TurnSnapshots = Record<string, TurnSnapshot>;
@@ -0,0 +1,269 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion, completionDeltas, completionText, getProviderConfig } from "../_shared/llmProvider.ts";
+import { analyzeCrisisContext } from "../_shared/crisisAnalysis.ts";
+import { moderateResponse } from "../_shared/moderation.ts";
+import {
+  currentBranch, findSession, isSessionOpen, isTurnRecorded, readTranscript, saveTurn, serviceClient,
+  type SessionTurn
+} from "../_shared/sessions.ts";
+import { loadPublishedScenarios } from "../_shared/scenarios.ts";
+import { refreshLearnerProfile } from "../_shared/learners.ts";
+import { INITIAL_TURN_STATE, initialTurnState, type TurnState } from "../_shared/turnState.ts";
+import {
+  runTurn, turnOutcome,
+  type CoachMessage, type TurnEvent, type TurnRecord, type TurnServices
+} from "../../../src/pages/turnPipeline.ts";
+import { getScenario } from "../../../src/pages/scenarios.ts";
+import { getPersona } from "../../../src/pages/personas.ts";
+import { renderTip } from "../../../src/pages/tipCatalog.ts";
+import { redactPii } from "../../../src/pages/guardrails.ts";
+import type { ChatAdapter } from "../../../src/pages/llmAdapters.ts";
+import type { ExitGrade } from "../../../src/pages/exitGrading.ts";
+
+/**
+ * One learner turn, run entirely on the server: trigger detection, distress
+ * and crisis analysis, coaching, Jordan's reply (with the self-response
+ * retry) and moderation, then the turn's rows are appended to session_turns
+ * (sessions.transcript is derived from them) together with the turn state,
+ * unless a rewind or another turn changed the session meanwhile. The browser only sees
+ * the events below, so it can't skip a safety step or show an unmoderated
+ * reply (except token previews in scenes that opt into optimistic streaming).
+ *
+ * Request:  { sessionDbId, sessionToken, turnId, userText } (turnId: a UUID the
+ *           browser generates per message, so a retried request can't run twice)
+ * Response: text/event-stream of TurnEvent JSON payloads
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_USER_MESSAGE_LENGTH = 2000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const BLOCKED_REPLY = "I'm having trouble thinking of what to say. Can you ask me something else?";
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const serverAdapter: ChatAdapter = {
+  id: "server",
+  async chat(messages, opts) {
+    const response = await chatCompletion({
+      purpose: "chat",
+      model: opts.model,
+      messages,
+      temperature: opts.temperature || 0.7,
+      max_tokens: opts.max_tokens || 500,
+      timeoutMs: 25000,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("LLM provider error:", response.status, errorText);
+      throw new Error(`LLM provider error: ${response.status}`);
+    }
+
+    return completionText(await response.json()) || "Let's keep chatting — what's on your mind?";
+  },
+  async *stream(messages, opts) {
+    const response = await chatCompletion({
+      purpose: "chat",
+      model: opts.model,
+      messages,
+      temperature: opts.temperature || 0.7,
+      max_tokens: opts.max_tokens || 500,
+      stream: true,
+      timeoutMs: 25000,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error("LLM provider error:", response.status, errorText);
+      throw new Error(`LLM provider error: ${response.status}`);
+    }
+
+    yield* completionDeltas(response.body);
+  },
+};
+
+function turnServices(supabase: SupabaseClient, sessionDbId: string): TurnServices {
+  return {
+    adapter: serverAdapter,
+    analyzeCrisis: analyzeCrisisContext,
+    async moderate(reply, context) {
+      const verdict = await moderateResponse(reply, context);
+      if (verdict.safe) return { safe: true, finalResponse: reply };
+
+      const { error } = await supabase.from("moderation_logs").insert({
+        session_id: sessionDbId,
+        original_response: redactPii(reply).text,
+        block_reason: verdict.reason || "Unknown reason",
+        moderation_details: verdict,
+      });
+      if (error) console.error("Failed to log blocked response:", error);
+
+      return { safe: false, reason: verdict.reason, finalResponse: BLOCKED_REPLY };
+    },
+  };
+}
+
+const coachTurn = ({ id, variant, type }: CoachMessage, name: string): SessionTurn =>
+  ({ role: "coach", content: renderTip({ id, variant }, { vars: { name } }), coachTip: { id, variant }, coachType: type });
+
+// Structured record of the turn; a trigger on turn_events keeps the
+// session_metadata counters up to date
+async function recordTurnEvent(supabase: SupabaseClient, sessionDbId: string, branch: number, turnIndex: number, record: TurnRecord) {
+  const { error } = await supabase.from("turn_events").insert({
+    session_id: sessionDbId,
+    branch,
+    turn_index: turnIndex,
+    event_kind: record.eventKind,
+    trigger_kinds: record.triggerKinds,
+    matched_keywords: record.matchedKeywords,
+    distress_tier: record.distressTier,
+    crisis_verdict: record.crisisVerdict,
+    moderation_verdict: record.moderationVerdict,
+    coach_tip_id: record.coachTipId,
+    coach_tip_variant: record.coachTipVariant,
+    user_word_count: record.userWordCount,
+  });
+  if (error) console.error("Failed to record turn event:", error);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  let body: { sessionDbId?: unknown; sessionToken?: unknown; turnId?: unknown; userText?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  const userText = typeof body.userText === "string" ? body.userText.trim() : "";
+  if (!userText || userText.length > MAX_USER_MESSAGE_LENGTH) {
+    return jsonResponse({ error: `Message must be 1-${MAX_USER_MESSAGE_LENGTH} characters` }, 400);
+  }
+  const turnId = typeof body.turnId === "string" && UUID_PATTERN.test(body.turnId) ? body.turnId : null;
+  if (!turnId) return jsonResponse({ error: "turnId must be a UUID" }, 400);
+
+  const supabase = serviceClient();
+  const session = await findSession(supabase, body.sessionDbId, body.sessionToken);
+  if (!session) return jsonResponse({ error: "Invalid session" }, 401);
+  if (!isSessionOpen(session)) return jsonResponse({ error: "Session has ended" }, 409);
+
+  try {
+    if (await isTurnRecorded(supabase, session, turnId)) {
+      return jsonResponse({ error: "Turn already recorded" }, 409);
+    }
+  } catch (error) {
+    console.error("Turn lookup failed:", error);
+    return jsonResponse({ error: "Turn lookup failed" }, 500);
+  }
+
+  await loadPublishedScenarios(supabase);
+  const pack = getScenario(session.scene);
+  const persona = getPersona(session.persona);
+  const transcript = readTranscript(session);
+  const savedState = session.metadata?.turnState as TurnState | undefined;
+  const state: TurnState = savedState
+    ? { ...INITIAL_TURN_STATE, ...savedState }
+    : await initialTurnState(supabase, session);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: TurnEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      try {
+        const startedAt = Date.now();
+        const result = await runTurn(
+          {
+            userText,
+            history: transcript.map(t => ({
+              role: t.role,
+              content: t.content,
+              coachTipId: t.role === "user" ? t.coachTip?.id : undefined,
+            })),
+            scene: pack.id,
+            persona: persona.id,
+            interlocutor: session.interlocutor as "he" | "she" | "they",
+            cooldown: state.cooldown,
+            celebratedBehaviors: state.celebratedBehaviors,
+            tipSeed: session.id,
+            masteredSkills: state.masteredSkills,
+            difficulty: state.difficulty,
+            autoDifficulty: session.auto_difficulty,
+            phase: state.phase,
+            exitPractice: session.exit_practice,
+          },
+          turnServices(supabase, session.id),
+          {
+            streamingMode: pack.streamingMode,
+            onUserTurn: (coachTip, coachChatMessage) => emit({ type: "userTurn", coachTip, coachChatMessage }),
+            onReplyDelta: text => emit({ type: "partial", text }),
+          }
+        );
+
+        // The learner's message sits right after the existing transcript.
+        // If its rows can't be saved (or a rewind or another turn got in
+        // first) the turn fails, so the browser never shows a turn the
+        // transcript doesn't have
+        if (result.kind === "crisis") {
+          await saveTurn(supabase, session, turnId, transcript.length, [{ role: "user", content: userText, coachTip: null }], { crisis: true });
+        } else {
+          const turns: SessionTurn[] = [{ role: "user", content: userText, coachTip: result.coachTip || null }];
+          if (result.coachChatMessage) turns.push(coachTurn(result.coachChatMessage, persona.name));
+          turns.push({
+            role: "assistant",
+            content: result.reply,
+            coachTip: null,
+            latencyMs: Date.now() - startedAt,
+            model: getProviderConfig("chat").model,
+            moderationVerdict: result.record.moderationVerdict,
+          });
+          if (result.jordanInsight) turns.push(coachTurn(result.jordanInsight, persona.name));
+
+          const turnState: TurnState = {
+            ...state,
+            cooldown: !!result.coachTip || !!result.coachChatMessage,
+            celebratedBehaviors: result.celebratedBehavior
+              ? { ...state.celebratedBehaviors, [result.celebratedBehavior]: true }
+              : state.celebratedBehaviors,
+            difficulty: result.difficulty ?? state.difficulty,
+            phase: result.phase,
+          };
+
+          await saveTurn(supabase, session, turnId, transcript.length, turns, {
+            turnState,
+            snapshot: { turnState: state, exitGrade: session.metadata?.exitGrade as ExitGrade | undefined },
+            exitGrade: result.exitGrade,
+          });
+        }
+
+        await recordTurnEvent(supabase, session.id, currentBranch(session), transcript.length, result.record);
+
+        emit({ type: "outcome", outcome: turnOutcome(result) });
+
+        // After the outcome so the learner isn't kept waiting on it
+        if (session.learner_id) await refreshLearnerProfile(supabase, session.learner_id);
+      } catch (error) {
+        console.error("Error in jordan-turn:", error);
+        emit({ type: "error", error: error instanceof Error ? error.message : "Unknown error" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+});
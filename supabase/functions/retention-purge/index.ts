@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { serviceClient } from "../_shared/sessions.ts";
+import { tallySession } from "../../../src/pages/learnerProfile.ts";
+import {
+  DEFAULT_RETENTION_DAYS,
+  runRetentionPurge,
+  type RetentionCategory,
+  type RetentionStore,
+  type RetentionWindows,
+} from "../../../src/pages/retention.ts";
+
+/**
+ * Scheduled purge of stored conversation content past its retention window:
+ * - normal sessions: RETENTION_DAYS_NORMAL after they ended (default 180)
+ * - crisis sessions: RETENTION_DAYS_CRISIS after they ended (default 30)
+ * - blocked replies in moderation_logs: RETENTION_DAYS_MODERATION_BLOCKED
+ *   after they were blocked (default 30), or with their session's content
+ * A purged session loses its session_turns rows, transcript and rewound
+ * branches but keeps its row, metrics and turn_events, so the admin
+ * dashboard's statistics don't change. A tracked learner's session keeps
+ * its skill tally, so their profile doesn't change either. Every purge is recorded in
+ * retention_purges (counts only). pg_cron calls it daily with the service
+ * role key, the only credential it accepts.
+ *
+ * Which content is due, and in what order, lives in src/pages/retention.ts.
+ *
+ * Response: { sessions, moderationLogs } (sessions purged, logs deleted)
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const retentionDays = (category: RetentionCategory) =>
+  Number(Deno.env.get(`RETENTION_DAYS_${category.toUpperCase()}`)) || DEFAULT_RETENTION_DAYS[category];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = serviceClient();
+  const windows: RetentionWindows = {
+    normal: retentionDays("normal"),
+    crisis: retentionDays("crisis"),
+    moderation_blocked: retentionDays("moderation_blocked"),
+  };
+
+  const store: RetentionStore = {
+    async dueSessions(category, endedBefore, limit) {
+      const query = supabase
+        .from("sessions")
+        .select("id, session_id, ended_at")
+        .is("purged_at", null)
+        .lt("ended_at", endedBefore)
+        .order("ended_at")
+        .limit(limit);
+      // crisis_detected is NULL on sessions from before the flag
+      const { data, error } = await (category === "crisis"
+        ? query.eq("crisis_detected", true)
+        : query.not("crisis_detected", "is", true));
+      if (error) throw error;
+      return (data ?? []).map(row => ({
+        id: row.id,
+        sessionCode: row.session_id,
+        endedAt: row.ended_at,
+      }));
+    },
+
+    // Claim, deletes and audit row commit together (purge_session_content)
+    async purgeSession(session, category, retentionDays) {
+      // Ended sessions don't change, so the transcript read here is the one purged
+      const { data: row, error: readError } = await supabase
+        .from("sessions")
+        .select("learner_id, transcript")
+        .eq("id", session.id)
+        .single();
+      if (readError) throw readError;
+
+      const { data, error } = await supabase.rpc("purge_session_content", {
+        _session_id: session.id,
+        _category: category,
+        _retention_days: retentionDays,
+        _skill_tally: row.learner_id ? tallySession(row.transcript) : null,
+      });
+      if (error) throw error;
+      return data === true;
+    },
+
+    async purgeModerationLogs(blockedBefore, retentionDays) {
+      const { data, error } = await supabase.rpc("purge_moderation_logs", {
+        _blocked_before: blockedBefore,
+        _retention_days: retentionDays,
+      });
+      if (error) throw error;
+      return Number(data) || 0;
+    },
+  };
+
+  try {
+    const { sessions, moderationLogs } = await runRetentionPurge(store, windows);
+
+    console.log(`Purged ${sessions} session(s) and ${moderationLogs} moderation log(s)`);
+    return jsonResponse({ sessions, moderationLogs }, 200);
+  } catch (error) {
+    console.error("Error in retention-purge:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { findSession, serviceClient } from "../_shared/sessions.ts";
+import { refreshLearnerProfile } from "../_shared/learners.ts";
+import type { TurnState } from "../_shared/turnState.ts";
+
+/**
+ * Rewind a session to one of the learner's earlier messages so they can try
+ * a different reply. The session_turns rows from that message on are marked
+ * rewound, which cuts the derived transcript back to just before it, and the
+ * pipeline state (cooldown, celebrated behaviors, difficulty, phase,
+ * exit grade) is restored from the snapshot jordan-turn took before running
+ * it. The discarded path is kept in sessions.branches for admins. All of it
+ * happens in the rewind_session database function, which holds the session
+ * row so the cut and the restore land together.
+ *
+ * Request:  { sessionDbId, sessionToken, turnIndex } (index into the transcript)
+ * Response: { phase, difficulty } as of the rewound point
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  let body: { sessionDbId?: unknown; sessionToken?: unknown; turnIndex?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  const supabase = serviceClient();
+  const session = await findSession(supabase, body.sessionDbId, body.sessionToken);
+  if (!session) return jsonResponse({ error: "Invalid session" }, 401);
+
+  const turnIndex = Number(body.turnIndex);
+  if (!Number.isInteger(turnIndex)) {
+    return jsonResponse({ error: "turnIndex must point at a learner message" }, 400);
+  }
+
+  const { data, error } = await supabase.rpc("rewind_session", {
+    _session_id: session.id,
+    _turn_index: turnIndex,
+  });
+
+  if (error) {
+    // rewind_session raises PTxxx codes for requests it refuses
+    const status = /^PT\d{3}$/.test(error.code ?? "") ? Number(error.code.slice(2)) : 500;
+    if (status === 500) console.error("Failed to rewind session:", error);
+    return jsonResponse({ error: status === 500 ? "Rewind failed" : error.message }, status);
+  }
+
+  const { turnState, branch } = data as { turnState: TurnState; branch: number };
+  console.log(`Rewound session ${session.id} to turn ${turnIndex}, now on branch ${branch}`);
+
+  // Skills and earned behaviors follow the transcript
+  if (session.learner_id) await refreshLearnerProfile(supabase, session.learner_id);
+
+  return jsonResponse({
+    phase: turnState.phase?.phase ?? "opening",
+    difficulty: turnState.difficulty,
+  }, 200);
+});
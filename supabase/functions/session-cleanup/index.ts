@@ -12,10 +12,12 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { sessionDbId, sessionToken } = await req.json();
+    // Sent with navigator.sendBeacon, which can't set an Authorization
+    // header, so the caller's access token comes in the body
+    const { sessionDbId, accessToken } = await req.json();
     
-    if (!sessionDbId || !sessionToken) {
-      console.log("Missing sessionDbId or sessionToken");
+    if (!sessionDbId || !accessToken) {
+      console.log("Missing sessionDbId or accessToken");
       return new Response("Missing required fields", { status: 400, headers: corsHeaders });
     }
 
@@ -25,29 +27,36 @@ Deno.serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Update session_metadata to mark as abandoned
-    const { error: metaError } = await supabase
-      .from("session_metadata")
-      .update({ completion_status: "abandoned" })
-      .eq("session_id", sessionDbId)
-      .eq("session_token", sessionToken);
-
-    if (metaError) {
-      console.error("Error updating session_metadata:", metaError);
+    // Only the session's owner may close it
+    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+    if (authError || !user) {
+      console.log("Invalid access token:", authError?.message);
+      return new Response("Unauthorized", { status: 401, headers: corsHeaders });
     }
 
-    // Update sessions table with ended_at
-    const { error: sessionError } = await supabase
+    // Pause the session, if it's the caller's and still open: the learner
+    // can resume it on their next visit, and session-sweep ends it as
+    // abandoned if they don't. The database marks its metadata paused.
+    const { data: paused, error: sessionError } = await supabase
       .from("sessions")
-      .update({ ended_at: new Date().toISOString() })
+      .update({ paused_at: new Date().toISOString() })
       .eq("id", sessionDbId)
-      .eq("session_token", sessionToken);
+      .eq("owner_id", user.id)
+      .is("ended_at", null)
+      .select("id");
 
     if (sessionError) {
       console.error("Error updating sessions:", sessionError);
     }
+    if (!paused?.length) {
+      console.log(`Session ${sessionDbId} not open or not owned by caller`);
+      return new Response(JSON.stringify({ success: false }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    console.log(`Session ${sessionDbId} marked as abandoned`);
+    console.log(`Session ${sessionDbId} paused`);
 
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
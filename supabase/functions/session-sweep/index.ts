@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serviceClient } from "../_shared/sessions.ts";
+import { OPEN_STATUSES, type CompletionStatus } from "../../../src/pages/sessionStatus.ts";
+
+/**
+ * Scheduled sweep over the session lifecycle (statuses in
+ * src/pages/sessionStatus.ts). Sessions only end when the learner ends them,
+ * on a crisis, or here:
+ * - paused (tab closed) with no turns for PAUSED_SESSION_TIMEOUT_MINUTES
+ *   (default 30): abandoned
+ * - still open with no turns for INACTIVE_SESSION_TIMEOUT_MINUTES
+ *   (default 60), e.g. a mobile tab that never sent its close: timed_out
+ * Either way ended_at is the time of the last turn. It also settles the
+ * metadata of ended sessions still marked open (crisis_ended or completed).
+ * pg_cron calls it every 10 minutes with the service role key, the only
+ * credential it accepts. Locally: `supabase functions serve session-sweep`
+ * and POST with that key.
+ *
+ * Response: { ended, settled } (sessions ended, metadata rows fixed)
+ */
+
+const DEFAULT_PAUSED_TIMEOUT_MINUTES = 30;
+const DEFAULT_INACTIVE_TIMEOUT_MINUTES = 60;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const minutesAgo = (envName: string, fallback: number) =>
+  Date.now() - (Number(Deno.env.get(envName)) || fallback) * 60 * 1000;
+
+// Time of the session's last turn, or its start if it has none
+async function lastActivity(supabase: SupabaseClient, session: { id: string; started_at: string }): Promise<string> {
+  const { data, error } = await supabase
+    .from("session_turns")
+    .select("created_at")
+    .eq("session_id", session.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.created_at ?? session.started_at;
+}
+
+// Upsert, so sessions that never got a metadata row get one
+async function setStatus(supabase: SupabaseClient, sessionId: string, status: CompletionStatus) {
+  const { error } = await supabase
+    .from("session_metadata")
+    .upsert({ session_id: sessionId, completion_status: status }, { onConflict: "session_id" });
+  if (error) console.error("Error updating session_metadata:", error);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const pausedCutoff = minutesAgo("PAUSED_SESSION_TIMEOUT_MINUTES", DEFAULT_PAUSED_TIMEOUT_MINUTES);
+  const inactiveCutoff = minutesAgo("INACTIVE_SESSION_TIMEOUT_MINUTES", DEFAULT_INACTIVE_TIMEOUT_MINUTES);
+  const supabase = serviceClient();
+
+  try {
+    // Anything that started before the earlier cutoff could be stale
+    const { data: open, error } = await supabase
+      .from("sessions")
+      .select("id, started_at, paused_at")
+      .is("ended_at", null)
+      .lt("started_at", new Date(Math.max(pausedCutoff, inactiveCutoff)).toISOString());
+    if (error) throw error;
+
+    let ended = 0;
+    for (const session of open ?? []) {
+      // A turn after the pause means the learner came back (the pause
+      // beacon can land after the reloaded page resumed the session)
+      const lastTurnAt = await lastActivity(supabase, session);
+      const status: CompletionStatus = session.paused_at ? "abandoned" : "timed_out";
+      if (Date.parse(lastTurnAt) > (status === "abandoned" ? pausedCutoff : inactiveCutoff)) continue;
+
+      const { data: updated, error: endError } = await supabase
+        .from("sessions")
+        .update({ ended_at: lastTurnAt })
+        .eq("id", session.id)
+        .is("ended_at", null)
+        .select("id");
+      if (endError) throw endError;
+      if (!updated?.length) continue;
+
+      await setStatus(supabase, session.id, status);
+      ended++;
+    }
+
+    // Ended sessions whose status was never updated, e.g. crises before
+    // jordan-turn recorded them, or an End whose metadata write failed
+    const { data: unsettled, error: unsettledError } = await supabase
+      .from("session_metadata")
+      .select("session_id, sessions!inner(ended_at, crisis_detected)")
+      .in("completion_status", OPEN_STATUSES)
+      .not("sessions.ended_at", "is", null);
+    if (unsettledError) throw unsettledError;
+
+    for (const meta of unsettled ?? []) {
+      const session = meta.sessions as unknown as { crisis_detected: boolean | null };
+      await setStatus(supabase, meta.session_id, session.crisis_detected ? "crisis_ended" : "completed");
+    }
+
+    console.log(`Ended ${ended} stale session(s), settled ${unsettled?.length ?? 0} status(es)`);
+    return jsonResponse({ ended, settled: unsettled?.length ?? 0 }, 200);
+  } catch (error) {
+    console.error("Error in session-sweep:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
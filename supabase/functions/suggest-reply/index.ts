@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion, completionText } from "../_shared/llmProvider.ts";
+import { moderateSuggestions } from "../_shared/moderation.ts";
+import { findSession, readTranscript, serviceClient } from "../_shared/sessions.ts";
+import { loadPublishedScenarios } from "../_shared/scenarios.ts";
+import { getScenario } from "../../../src/pages/scenarios.ts";
+import { getPersona } from "../../../src/pages/personas.ts";
+import { redactPii } from "../../../src/pages/guardrails.ts";
+import { pathEvents } from "../../../src/pages/transcriptPath.ts";
+import {
+  parseSuggestions, suggestionMessages, suggestionsAllowed,
+  type SuggestionTurn
+} from "../../../src/pages/replySuggestions.ts";
+
+/**
+ * "How could I say that better?" for one of the learner's messages: two or
+ * three rephrasings grounded in the conversation, each moderated before the
+ * learner sees it. Refused for sessions with a crisis and for messages that
+ * showed distress or went to crisis analysis.
+ *
+ * Request:  { sessionDbId, sessionToken, turnIndex } (index into the transcript)
+ * Response: ReplySuggestions JSON
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  let body: { sessionDbId?: unknown; sessionToken?: unknown; turnIndex?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  const supabase = serviceClient();
+  const session = await findSession(supabase, body.sessionDbId, body.sessionToken);
+  if (!session) return jsonResponse({ error: "Invalid session" }, 401);
+
+  const transcript = readTranscript(session);
+  const turnIndex = Number(body.turnIndex);
+  if (!Number.isInteger(turnIndex) || transcript[turnIndex]?.role !== "user") {
+    return jsonResponse({ error: "turnIndex must point at a learner message" }, 400);
+  }
+
+  try {
+    // Same distress pre-filter as coaching, plus whatever the crisis
+    // pipeline decided when the turn ran. A message from before a rewind
+    // keeps the event of the branch it was sent on.
+    const { data: events, error: eventError } = await supabase
+      .from("turn_events")
+      .select("branch, turn_index, distress_tier, crisis_verdict")
+      .eq("session_id", session.id)
+      .eq("turn_index", turnIndex);
+    if (eventError) throw eventError;
+    const event = pathEvents(events ?? [], session.branches ?? [])[turnIndex];
+
+    const turns: SuggestionTurn[] = transcript.map(t => ({
+      role: t.role,
+      content: t.content,
+      coachTipId: t.role === "user" ? t.coachTip?.id : undefined,
+    }));
+    if (session.crisis_detected || event?.distress_tier != null || event?.crisis_verdict != null || !suggestionsAllowed(turns, turnIndex)) {
+      return jsonResponse({ error: "Suggestions aren't available for this message" }, 403);
+    }
+
+    await loadPublishedScenarios(supabase);
+    const persona = getPersona(session.persona);
+    const response = await chatCompletion({
+      purpose: "suggestion",
+      messages: suggestionMessages(turns, turnIndex, getScenario(session.scene), persona),
+      temperature: 0.8,
+      max_tokens: 400,
+      timeoutMs: 20000,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("LLM provider error:", response.status, errorText);
+      throw new Error(`LLM provider error: ${response.status}`);
+    }
+
+    const reply = completionText(await response.json());
+    const suggestions = parseSuggestions(reply);
+    if (!suggestions) {
+      console.error("Failed to parse suggestions:", reply);
+      throw new Error("Unparseable suggestions");
+    }
+
+    const context = transcript.slice(Math.max(0, turnIndex - 4), turnIndex + 2)
+      .filter(t => t.role !== "coach")
+      .map(t => `${t.role}: ${t.content}`)
+      .join("\n");
+    const verdicts = await moderateSuggestions(suggestions.suggestions, context);
+
+    const safe: string[] = [];
+    for (const [i, suggestion] of suggestions.suggestions.entries()) {
+      if (verdicts[i].safe) {
+        safe.push(suggestion);
+        continue;
+      }
+      const { error } = await supabase.from("moderation_logs").insert({
+        session_id: session.id,
+        original_response: redactPii(suggestion).text,
+        block_reason: verdicts[i].reason || "Unknown reason",
+        moderation_details: { ...verdicts[i], source: "suggest-reply", turnIndex },
+      });
+      if (error) console.error("Failed to log blocked suggestion:", error);
+    }
+
+    if (safe.length === 0) return jsonResponse({ error: "No suggestions passed moderation" }, 502);
+
+    return jsonResponse({ ...suggestions, suggestions: safe }, 200);
+  } catch (error) {
+    console.error("Error in suggest-reply:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,64 @@
+-- Admin-authored scenario packs
+-- pack holds the JSON scenario pack (see src/pages/scenarios.ts for the schema)
+CREATE TABLE public.scenarios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT UNIQUE NOT NULL,
+  pack JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  published_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.scenarios ENABLE ROW LEVEL SECURITY;
+
+-- Admins can manage all scenarios (drafts included)
+CREATE POLICY "Admins can read all scenarios"
+ON public.scenarios
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert scenarios"
+ON public.scenarios
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update scenarios"
+ON public.scenarios
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete scenarios"
+ON public.scenarios
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Learners only ever see published scenarios
+CREATE POLICY "Anyone can read published scenarios"
+ON public.scenarios
+FOR SELECT
+TO anon, authenticated
+USING (status = 'published');
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION public.touch_scenario_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scenarios_touch_updated_at
+BEFORE UPDATE ON public.scenarios
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_scenario_updated_at();
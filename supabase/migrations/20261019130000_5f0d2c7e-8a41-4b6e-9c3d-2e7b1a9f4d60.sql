@@ -0,0 +1,78 @@
+-- Structured per-turn safety and coaching events, written by the jordan-turn function
+-- Replaces counting coach-tip text: session_metadata counters are now derived from these rows
+CREATE TABLE public.turn_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  -- Index of the learner's message in sessions.transcript
+  turn_index INTEGER NOT NULL,
+  -- Highest-priority trigger (Severity in src/pages/constants.ts), plus every kind that fired
+  event_kind TEXT NOT NULL CHECK (event_kind IN ('CRISIS', 'PII', 'CONTROVERSIAL', 'INSULT', 'COACHING', 'NONE')),
+  trigger_kinds TEXT[] NOT NULL DEFAULT '{}',
+  -- Keyword list entries / PII pattern names that matched
+  matched_keywords TEXT[] NOT NULL DEFAULT '{}',
+  distress_tier SMALLINT CHECK (distress_tier BETWEEN 1 AND 3),
+  -- NULL when the message never went to crisis analysis
+  crisis_verdict TEXT CHECK (crisis_verdict IN ('crisis', 'coaching', 'safe', 'error')),
+  -- NULL when no reply was moderated (crisis turns)
+  moderation_verdict TEXT CHECK (moderation_verdict IN ('safe', 'blocked')),
+  -- Coaching rule id, e.g. "deflection"; NULL when no tip was shown
+  coach_tip_id TEXT,
+  user_word_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (session_id, turn_index)
+);
+
+CREATE INDEX idx_turn_events_session ON public.turn_events(session_id);
+
+ALTER TABLE public.turn_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read all events; only the service role (jordan-turn) writes them
+CREATE POLICY "Admins can read turn events"
+ON public.turn_events
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Recompute a session's counters from its events
+CREATE OR REPLACE FUNCTION public.refresh_session_metadata_counts(_session_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.session_metadata m
+  SET
+    crisis_count = c.crisis_count,
+    pii_count = c.pii_count,
+    controversial_count = c.controversial_count,
+    coaching_count = c.coaching_count,
+    avg_user_message_length = c.avg_user_message_length
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE 'CRISIS' = ANY(trigger_kinds) OR crisis_verdict IS NOT NULL)::INTEGER AS crisis_count,
+      COUNT(*) FILTER (WHERE 'PII' = ANY(trigger_kinds))::INTEGER AS pii_count,
+      COUNT(*) FILTER (WHERE 'CONTROVERSIAL' = ANY(trigger_kinds))::INTEGER AS controversial_count,
+      COUNT(*) FILTER (WHERE coach_tip_id IS NOT NULL)::INTEGER AS coaching_count,
+      COALESCE(ROUND(AVG(user_word_count)), 0)::INTEGER AS avg_user_message_length
+    FROM public.turn_events
+    WHERE session_id = _session_id
+  ) c
+  WHERE m.session_id = _session_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.turn_events_refresh_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_session_metadata_counts(COALESCE(NEW.session_id, OLD.session_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER turn_events_refresh_counts
+AFTER INSERT OR UPDATE OR DELETE ON public.turn_events
+FOR EACH ROW
+EXECUTE FUNCTION public.turn_events_refresh_counts();
@@ -0,0 +1,6 @@
+-- Coach tips are now catalog IDs (src/pages/tipCatalog.ts) with phrasing variants
+COMMENT ON COLUMN public.turn_events.coach_tip_id IS 'Tip catalog ID, e.g. "exitCuesLeaving"; NULL when no tip was shown';
+
+-- Which phrasing of the tip the learner saw, for A/B comparisons
+ALTER TABLE public.turn_events
+  ADD COLUMN coach_tip_variant SMALLINT CHECK (coach_tip_variant >= 0);
@@ -0,0 +1,88 @@
+-- Opt-in learner identities: Supabase anonymous auth, upgradable to an email
+-- login, links a learner's sessions so progress can be tracked across visits
+
+ALTER TABLE public.sessions
+  ADD COLUMN learner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sessions_learner ON public.sessions(learner_id, started_at);
+
+-- Per-skill mastery derived from the learner's sessions (src/pages/learnerProfile.ts),
+-- rebuilt by the jordan-turn function after each turn
+CREATE TABLE public.learner_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_count INTEGER NOT NULL DEFAULT 0,
+  -- { [skill]: { level, sessions, tips, wins, mastered } }
+  skills JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Celebrated behaviors the learner has already earned
+  earned_behaviors TEXT[] NOT NULL DEFAULT '{}',
+  -- Skill levels after each practiced session, oldest first
+  progress JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.learner_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Learners can read own profile"
+ON public.learner_profiles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read learner profiles"
+ON public.learner_profiles
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Anonymous (signed-out) visitors can't attach sessions to a learner
+DROP POLICY IF EXISTS "Anonymous users can create sessions" ON public.sessions;
+CREATE POLICY "Anonymous users can create sessions"
+ON public.sessions
+FOR INSERT
+TO anon
+WITH CHECK (learner_id IS NULL);
+
+DROP POLICY IF EXISTS "Anonymous users can update own sessions" ON public.sessions;
+CREATE POLICY "Anonymous users can update own sessions"
+ON public.sessions
+FOR UPDATE
+TO anon
+USING (session_token IS NOT NULL)
+WITH CHECK (session_token IS NOT NULL AND learner_id IS NULL);
+
+-- Signed-in learners (anonymous auth users have the authenticated role)
+CREATE POLICY "Learners can create own sessions"
+ON public.sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (learner_id = auth.uid());
+
+CREATE POLICY "Learners can read own sessions"
+ON public.sessions
+FOR SELECT
+TO authenticated
+USING (learner_id = auth.uid());
+
+CREATE POLICY "Learners can update own sessions"
+ON public.sessions
+FOR UPDATE
+TO authenticated
+USING (learner_id = auth.uid())
+WITH CHECK (learner_id = auth.uid());
+
+CREATE POLICY "Learners can create own metadata"
+ON public.session_metadata
+FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.learner_id = auth.uid()
+));
+
+CREATE POLICY "Learners can update own metadata"
+ON public.session_metadata
+FOR UPDATE
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.learner_id = auth.uid()
+));
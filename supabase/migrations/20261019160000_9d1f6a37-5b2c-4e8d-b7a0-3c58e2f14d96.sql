@@ -0,0 +1,7 @@
+-- Difficulty level chosen at setup (src/pages/difficulty.ts), and whether it
+-- may follow the learner's performance during the session. The current level
+-- lives in metadata.turnState.difficulty.
+ALTER TABLE public.sessions
+  ADD COLUMN difficulty TEXT NOT NULL DEFAULT 'beginner'
+    CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+  ADD COLUMN auto_difficulty BOOLEAN NOT NULL DEFAULT false;
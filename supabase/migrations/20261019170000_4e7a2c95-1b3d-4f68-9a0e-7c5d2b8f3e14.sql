@@ -0,0 +1,25 @@
+-- Which persona (src/pages/personas.ts) the learner talked to. Not constrained
+-- to the built-in ids so new personas don't need a migration; unknown ids
+-- fall back to Jordan.
+ALTER TABLE public.sessions
+  ADD COLUMN persona TEXT NOT NULL DEFAULT 'jordan';
+
+-- Scenario text now names the persona with a {name} placeholder. Only the
+-- fields scenarios.ts personalizes are rewritten; ids, titles, topics and
+-- clue keywords keep any "Jordan" they contain.
+UPDATE public.scenarios
+SET pack = jsonb_set(
+  jsonb_set(
+    jsonb_set(pack, '{setting}', to_jsonb(replace(pack->>'setting', 'Jordan', '{name}'))),
+    '{learnerSetting}', to_jsonb(replace(pack->>'learnerSetting', 'Jordan', '{name}'))
+  ),
+  '{openingLines}', COALESCE(
+    (SELECT jsonb_agg(to_jsonb(replace(o.line, 'Jordan', '{name}')) ORDER BY o.n)
+     FROM jsonb_array_elements_text(pack->'openingLines') WITH ORDINALITY AS o(line, n)),
+    '[]'::jsonb
+  )
+)
+-- Packs missing these fields fail validation and are skipped anyway
+WHERE jsonb_typeof(pack->'setting') = 'string'
+  AND jsonb_typeof(pack->'learnerSetting') = 'string'
+  AND jsonb_typeof(pack->'openingLines') = 'array';
@@ -0,0 +1,5 @@
+-- Exit practice (src/pages/exitGrading.ts): Jordan never ends the
+-- conversation and the learner's goodbye is graded. The grade is kept in
+-- metadata.exitGrade once the learner has left.
+ALTER TABLE public.sessions
+  ADD COLUMN exit_practice BOOLEAN NOT NULL DEFAULT false;
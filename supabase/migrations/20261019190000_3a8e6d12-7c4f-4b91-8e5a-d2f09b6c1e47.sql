@@ -0,0 +1,14 @@
+-- Rewinding (rewind-turn function): the learner can retry an earlier message.
+-- The path they rewound away from is kept in sessions.branches, and turn
+-- events are tagged with the branch they happened on, so admins can see
+-- both paths. Branch 0 is the session's first path; each rewind starts the
+-- next one.
+ALTER TABLE public.sessions
+  ADD COLUMN branches JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.turn_events
+  ADD COLUMN branch SMALLINT NOT NULL DEFAULT 0 CHECK (branch >= 0);
+
+ALTER TABLE public.turn_events
+  DROP CONSTRAINT turn_events_session_id_turn_index_key,
+  ADD CONSTRAINT turn_events_session_id_branch_turn_index_key UNIQUE (session_id, branch, turn_index);
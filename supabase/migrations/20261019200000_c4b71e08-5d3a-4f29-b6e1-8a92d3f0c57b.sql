@@ -0,0 +1,77 @@
+-- Session rows are owned by an auth identity instead of guarded by client-side
+-- token filtering. Every learner now signs in (anonymously unless they use an
+-- email), and RLS ties each session to auth.uid(): transcripts are readable
+-- only by their owner and admins. The session_token stays as the credential
+-- edge functions check, but no policy relies on it any more.
+
+-- Who created the session; learner_id is still only set when they track progress
+ALTER TABLE public.sessions
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sessions_owner ON public.sessions(owner_id);
+
+-- Tracked sessions were always created by their learner
+UPDATE public.sessions SET owner_id = learner_id WHERE learner_id IS NOT NULL;
+
+-- Anonymous (anon role) access: every transcript was readable, and updates
+-- relied on the client adding .eq('session_token', ...)
+DROP POLICY IF EXISTS "Anonymous users can read sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Anonymous users can create sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Anonymous users can update own sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Anonymous users can read metadata" ON public.session_metadata;
+DROP POLICY IF EXISTS "Anonymous users can create metadata" ON public.session_metadata;
+DROP POLICY IF EXISTS "Anonymous users can update own metadata" ON public.session_metadata;
+
+-- Replaced by the owner policies below (a learner owns every session they track)
+DROP POLICY IF EXISTS "Learners can create own sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Learners can read own sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Learners can update own sessions" ON public.sessions;
+DROP POLICY IF EXISTS "Learners can create own metadata" ON public.session_metadata;
+DROP POLICY IF EXISTS "Learners can update own metadata" ON public.session_metadata;
+
+-- Anonymous auth users have the authenticated role
+CREATE POLICY "Owners can create sessions"
+ON public.sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (owner_id = auth.uid() AND (learner_id IS NULL OR learner_id = auth.uid()));
+
+CREATE POLICY "Owners can read own sessions"
+ON public.sessions
+FOR SELECT
+TO authenticated
+USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update own sessions"
+ON public.sessions
+FOR UPDATE
+TO authenticated
+USING (owner_id = auth.uid())
+WITH CHECK (owner_id = auth.uid() AND (learner_id IS NULL OR learner_id = auth.uid()));
+
+CREATE POLICY "Owners can create own metadata"
+ON public.session_metadata
+FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+));
+
+CREATE POLICY "Owners can read own metadata"
+ON public.session_metadata
+FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+));
+
+CREATE POLICY "Owners can update own metadata"
+ON public.session_metadata
+FOR UPDATE
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+));
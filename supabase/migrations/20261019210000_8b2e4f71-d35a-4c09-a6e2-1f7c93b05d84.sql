@@ -0,0 +1,133 @@
+-- One row per transcript turn instead of rewriting the whole sessions.transcript
+-- blob. Each learner message gets a client-generated turn id; the rows it
+-- produces (the message, a celebration, the reply, an insight) are appended
+-- under it, so a retried request can't add them twice. sessions.transcript
+-- and total_turns are now derived from these rows by a trigger, and stay the
+-- read model for the Admin dashboard, CSV export and edge functions.
+CREATE TABLE public.session_turns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  -- Generated by the browser per learner message (or for the opening turns)
+  turn_id UUID NOT NULL,
+  -- Order of the row within its turn
+  seq SMALLINT NOT NULL CHECK (seq >= 0),
+  -- Index in sessions.transcript
+  position INTEGER NOT NULL CHECK (position >= 0),
+  -- Path the row was added on (see sessions.branches)
+  branch SMALLINT NOT NULL DEFAULT 0 CHECK (branch >= 0),
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'coach')),
+  content TEXT NOT NULL,
+  -- Catalog tip: shown with a user message, or the coach message itself
+  coach_tip_id TEXT,
+  coach_tip_variant SMALLINT,
+  coach_type TEXT CHECK (coach_type IN ('celebration', 'insight')),
+  -- Assistant rows: how long the turn took to produce the reply, and the model
+  latency_ms INTEGER,
+  model TEXT,
+  -- Assistant rows: NULL for the opening line
+  moderation_verdict TEXT CHECK (moderation_verdict IN ('safe', 'blocked')),
+  -- Set when the learner rewinds to before this row
+  rewound_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (session_id, turn_id, seq)
+);
+
+-- A transcript position holds one live row; a second turn racing for the
+-- same position fails instead of interleaving
+CREATE UNIQUE INDEX idx_session_turns_live_position
+ON public.session_turns(session_id, position)
+WHERE rewound_at IS NULL;
+
+ALTER TABLE public.session_turns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read session turns"
+ON public.session_turns
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Owners can read own session turns"
+ON public.session_turns
+FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+));
+
+-- The browser only seeds the scene context and opening line; everything
+-- after that is written by the service role (jordan-turn, rewind-turn)
+CREATE POLICY "Owners can create opening turns"
+ON public.session_turns
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  position < 2
+  AND role IN ('assistant', 'coach')
+  AND EXISTS (
+    SELECT 1 FROM public.sessions s WHERE s.id = session_id AND s.owner_id = auth.uid()
+  )
+);
+
+-- Existing transcripts become rows; older text tips have no catalog id
+INSERT INTO public.session_turns (session_id, turn_id, seq, position, role, content, coach_tip_id, coach_tip_variant)
+SELECT
+  s.id,
+  gen_random_uuid(),
+  0,
+  (t.ordinality - 1)::INTEGER,
+  t.turn->>'role',
+  t.turn->>'content',
+  CASE WHEN jsonb_typeof(t.turn->'coachTip') = 'object' THEN t.turn->'coachTip'->>'id' END,
+  CASE WHEN jsonb_typeof(t.turn->'coachTip') = 'object' THEN COALESCE((t.turn->'coachTip'->>'variant')::SMALLINT, 0) END
+FROM public.sessions s
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(s.transcript) = 'array' THEN s.transcript ELSE '[]'::jsonb END
+) WITH ORDINALITY AS t(turn, ordinality)
+WHERE t.turn->>'role' IN ('user', 'assistant', 'coach')
+  AND jsonb_typeof(t.turn->'content') = 'string';
+
+-- Rebuild a session's transcript from its live rows
+CREATE OR REPLACE FUNCTION public.refresh_session_transcript(_session_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.sessions s
+  SET
+    transcript = COALESCE(t.transcript, '[]'::jsonb),
+    total_turns = t.total_turns
+  FROM (
+    SELECT
+      jsonb_agg(
+        jsonb_build_object(
+          'role', role,
+          'content', content,
+          'coachTip', CASE WHEN coach_tip_id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', coach_tip_id, 'variant', COALESCE(coach_tip_variant, 0)) END
+        )
+        ORDER BY position
+      ) AS transcript,
+      COUNT(*)::INTEGER AS total_turns
+    FROM public.session_turns
+    WHERE session_id = _session_id AND rewound_at IS NULL
+  ) t
+  WHERE s.id = _session_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.session_turns_refresh_transcript()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_session_transcript(COALESCE(NEW.session_id, OLD.session_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER session_turns_refresh_transcript
+AFTER INSERT OR UPDATE OR DELETE ON public.session_turns
+FOR EACH ROW
+EXECUTE FUNCTION public.session_turns_refresh_transcript();
@@ -0,0 +1,30 @@
+-- Resumable sessions: closing or reloading the tab no longer ends the session.
+-- session-cleanup marks it paused instead, the learner is offered to continue
+-- it on their next visit, and the session-sweep function ends sessions that
+-- stay paused past the timeout as abandoned.
+ALTER TABLE public.sessions
+  ADD COLUMN paused_at TIMESTAMPTZ;
+
+CREATE INDEX idx_sessions_paused ON public.sessions(paused_at)
+WHERE paused_at IS NOT NULL AND ended_at IS NULL;
+
+-- Run session-sweep every 10 minutes. The project URL and service role key
+-- come from Vault secrets "project_url" and "service_role_key", which have to
+-- be created once per project (see the README).
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'session-sweep',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/session-sweep',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,31 @@
+-- Session lifecycle statuses (src/pages/sessionStatus.ts). The session-sweep
+-- function now also ends sessions that went quiet without a close (timed_out)
+-- and settles statuses of ended sessions; crisis sessions get crisis_ended.
+
+-- Sessions created before metadata rows were, or whose insert failed
+INSERT INTO public.session_metadata (session_id, session_token, completion_status)
+SELECT s.id, s.session_token, 'in_progress'
+FROM public.sessions s
+WHERE NOT EXISTS (SELECT 1 FROM public.session_metadata m WHERE m.session_id = s.id);
+
+-- Sessions from before turn_events keep the counters they were written with
+SELECT public.refresh_session_metadata_counts(s.id)
+FROM public.sessions s
+WHERE EXISTS (SELECT 1 FROM public.turn_events e WHERE e.session_id = s.id);
+
+UPDATE public.session_metadata m
+SET completion_status = CASE
+  WHEN s.crisis_detected THEN 'crisis_ended'
+  WHEN s.ended_at IS NULL THEN COALESCE(m.completion_status, 'in_progress')
+  -- Ended without its status being updated
+  WHEN m.completion_status IS NULL OR m.completion_status IN ('in_progress', 'paused') THEN 'completed'
+  ELSE m.completion_status
+END
+FROM public.sessions s
+WHERE s.id = m.session_id;
+
+ALTER TABLE public.session_metadata
+  ALTER COLUMN completion_status SET NOT NULL,
+  ADD CONSTRAINT session_metadata_completion_status_check CHECK (completion_status IN (
+    'in_progress', 'paused', 'resumed', 'completed', 'abandoned', 'crisis_ended', 'timed_out'
+  ));
@@ -0,0 +1,80 @@
+-- Data retention: the retention-purge function removes transcript content
+-- (session_turns rows, rewound branches, blocked replies in moderation_logs)
+-- once a session is older than its category's retention window, and records
+-- what it removed in retention_purges. Session rows and their metrics stay.
+
+-- When the session's transcript content was purged
+ALTER TABLE public.sessions
+  ADD COLUMN purged_at TIMESTAMPTZ;
+
+-- A purged session keeps its total_turns; its transcript stays empty
+CREATE OR REPLACE FUNCTION public.refresh_session_transcript(_session_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.sessions s
+  SET
+    transcript = COALESCE(t.transcript, '[]'::jsonb),
+    total_turns = t.total_turns
+  FROM (
+    SELECT
+      jsonb_agg(
+        jsonb_build_object(
+          'role', role,
+          'content', content,
+          'coachTip', CASE WHEN coach_tip_id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', coach_tip_id, 'variant', COALESCE(coach_tip_variant, 0)) END
+        )
+        ORDER BY position
+      ) AS transcript,
+      COUNT(*)::INTEGER AS total_turns
+    FROM public.session_turns
+    WHERE session_id = _session_id AND rewound_at IS NULL
+  ) t
+  WHERE s.id = _session_id AND s.purged_at IS NULL
+$$;
+
+-- Audit trail: one row per purged session (or per sweep of old moderation
+-- logs), with counts only, never content
+CREATE TABLE public.retention_purges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  category TEXT NOT NULL CHECK (category IN ('normal', 'crisis', 'moderation_blocked')),
+  retention_days INTEGER NOT NULL,
+  -- NULL for moderation logs purged on their own window
+  session_id UUID REFERENCES public.sessions(id) ON DELETE SET NULL,
+  -- The short code admins and feedback forms use, kept if the row goes
+  session_code TEXT,
+  turns_deleted INTEGER NOT NULL DEFAULT 0,
+  branches_deleted INTEGER NOT NULL DEFAULT 0,
+  moderation_logs_deleted INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_retention_purges_purged_at ON public.retention_purges(purged_at DESC);
+
+ALTER TABLE public.retention_purges ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read the audit trail; only the service role writes it
+CREATE POLICY "Admins can read retention purges"
+ON public.retention_purges
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Run retention-purge daily, with the same Vault secrets as session-sweep
+SELECT cron.schedule(
+  'retention-purge',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retention-purge',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,107 @@
+-- The owner policies on sessions and session_metadata allowed any column to be
+-- written, so a learner could reopen a crisis-ended session or rewrite the
+-- transcript, pipeline state (metadata.turnState / snapshots), branches and
+-- the counters the admin dashboard reports. Those are server state: owners
+-- now only write what the browser actually sets, and session_metadata is
+-- written by the database and the service role alone.
+
+-- Sessions: create with the setup choices; afterwards only end, pause/resume
+-- and record the crisis modal choice
+REVOKE INSERT, UPDATE ON public.sessions FROM anon, authenticated;
+
+GRANT INSERT (
+  session_id, session_token, scene, persona, interlocutor, difficulty,
+  auto_difficulty, exit_practice, started_at, metadata, owner_id, learner_id
+) ON public.sessions TO authenticated;
+
+GRANT UPDATE (ended_at, paused_at, crisis_user_selection) ON public.sessions TO authenticated;
+
+-- Column grants can't compare old and new values: an owner may end a
+-- session but never reopen one, and only the user agent of the metadata
+-- they send is kept. Service-role and SECURITY DEFINER writes pass through.
+CREATE OR REPLACE FUNCTION public.sessions_guard_owner_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.metadata := jsonb_strip_nulls(jsonb_build_object('userAgent', NEW.metadata->'userAgent'));
+  ELSIF OLD.ended_at IS NOT NULL
+    AND (NEW.ended_at IS DISTINCT FROM OLD.ended_at OR NEW.paused_at IS DISTINCT FROM OLD.paused_at) THEN
+    RAISE EXCEPTION 'Session % has ended', OLD.id USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sessions_guard_owner_writes
+BEFORE INSERT OR UPDATE ON public.sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.sessions_guard_owner_writes();
+
+-- Session metadata: read-only for owners
+REVOKE INSERT, UPDATE ON public.session_metadata FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Owners can create own metadata" ON public.session_metadata;
+DROP POLICY IF EXISTS "Owners can update own metadata" ON public.session_metadata;
+
+-- Every session gets its metadata row when it's created
+CREATE OR REPLACE FUNCTION public.sessions_create_metadata()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.session_metadata (session_id, session_token, completion_status)
+  VALUES (NEW.id, NEW.session_token, 'in_progress')
+  ON CONFLICT (session_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sessions_create_metadata
+AFTER INSERT ON public.sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.sessions_create_metadata();
+
+-- completion_status follows the session's own transitions (statuses in
+-- src/pages/sessionStatus.ts); session-sweep refines abandoned/timed_out
+CREATE OR REPLACE FUNCTION public.sessions_sync_completion_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF OLD.ended_at IS NULL AND NEW.ended_at IS NOT NULL THEN
+    _status := CASE
+      WHEN NEW.crisis_detected THEN 'crisis_ended'
+      -- Ended while paused: the learner started over instead of resuming
+      WHEN NEW.paused_at IS NOT NULL THEN 'abandoned'
+      ELSE 'completed'
+    END;
+  ELSIF NEW.ended_at IS NULL AND OLD.paused_at IS NULL AND NEW.paused_at IS NOT NULL THEN
+    _status := 'paused';
+  ELSIF NEW.ended_at IS NULL AND OLD.paused_at IS NOT NULL AND NEW.paused_at IS NULL THEN
+    _status := 'resumed';
+  END IF;
+
+  IF _status IS NOT NULL THEN
+    UPDATE public.session_metadata SET completion_status = _status WHERE session_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sessions_sync_completion_status
+AFTER UPDATE OF ended_at, paused_at ON public.sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.sessions_sync_completion_status();
@@ -0,0 +1,70 @@
+-- session_metadata counters counted every message that went to crisis
+-- analysis as a crisis, "safe" and "coaching" verdicts included, and kept
+-- counting events on paths the learner rewound away from. Only analyses that
+-- ended the conversation (a crisis verdict, or a failed analysis, which fails
+-- safe) count now, and only events still on the session's current path.
+
+-- An event is off the current path if a later rewind went back to its
+-- message or an earlier one: rewind k (sessions.branches[k], 0-based) ended
+-- branch k and discarded every event from its "at" index on, on that branch
+-- or any before it
+CREATE OR REPLACE FUNCTION public.refresh_session_metadata_counts(_session_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.session_metadata m
+  SET
+    crisis_count = c.crisis_count,
+    pii_count = c.pii_count,
+    controversial_count = c.controversial_count,
+    coaching_count = c.coaching_count,
+    avg_user_message_length = c.avg_user_message_length
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE e.crisis_verdict IN ('crisis', 'error'))::INTEGER AS crisis_count,
+      COUNT(*) FILTER (WHERE 'PII' = ANY(e.trigger_kinds))::INTEGER AS pii_count,
+      COUNT(*) FILTER (WHERE 'CONTROVERSIAL' = ANY(e.trigger_kinds))::INTEGER AS controversial_count,
+      COUNT(*) FILTER (WHERE e.coach_tip_id IS NOT NULL)::INTEGER AS coaching_count,
+      COALESCE(ROUND(AVG(e.user_word_count)), 0)::INTEGER AS avg_user_message_length
+    FROM public.turn_events e
+    JOIN public.sessions s ON s.id = e.session_id
+    WHERE e.session_id = _session_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(s.branches) WITH ORDINALITY AS r(rewind, n)
+        WHERE r.n - 1 >= e.branch AND e.turn_index >= (r.rewind->>'at')::INTEGER
+      )
+  ) c
+  WHERE m.session_id = _session_id
+$$;
+
+-- Only triggers (and the service role) recompute counters
+REVOKE EXECUTE ON FUNCTION public.refresh_session_metadata_counts(UUID) FROM public, anon, authenticated;
+
+-- A rewind changes which events are on the current path. Purging empties
+-- branches without un-rewinding anything, so it leaves the counters alone.
+CREATE OR REPLACE FUNCTION public.sessions_refresh_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_session_metadata_counts(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sessions_refresh_counts
+AFTER UPDATE OF branches ON public.sessions
+FOR EACH ROW
+WHEN (NEW.purged_at IS NULL AND NEW.branches IS DISTINCT FROM OLD.branches)
+EXECUTE FUNCTION public.sessions_refresh_counts();
+
+-- Purged sessions no longer know which paths were rewound
+SELECT public.refresh_session_metadata_counts(s.id)
+FROM public.sessions s
+WHERE s.purged_at IS NULL
+  AND EXISTS (SELECT 1 FROM public.turn_events e WHERE e.session_id = s.id);
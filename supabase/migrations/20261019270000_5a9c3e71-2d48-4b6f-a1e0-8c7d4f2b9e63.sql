@@ -0,0 +1,84 @@
+-- Rewinding marked session_turns rewound and then appended the branch and
+-- restored the pipeline state in a second call, so a failure (or another
+-- request) in between left the transcript cut but the state unrestored.
+-- rewind_session does both in one transaction, holding the session row.
+-- Errors use PostgREST's PTxxx codes, which answer with that HTTP status.
+CREATE OR REPLACE FUNCTION public.rewind_session(_session_id UUID, _turn_index INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+  _snapshot JSONB;
+  _rewound_at TIMESTAMPTZ := NOW();
+  _turns JSONB;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid session' USING ERRCODE = 'PT401';
+  END IF;
+  IF _session.ended_at IS NOT NULL OR _session.crisis_detected THEN
+    RAISE EXCEPTION 'Session has ended' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_turns
+    WHERE session_id = _session_id AND position = _turn_index AND rewound_at IS NULL AND role = 'user'
+  ) THEN
+    RAISE EXCEPTION 'turnIndex must point at a learner message' USING ERRCODE = 'PT400';
+  END IF;
+
+  -- Messages sent before snapshots were kept can't be rewound to
+  _snapshot := _session.metadata->'snapshots'->(_turn_index::TEXT);
+  IF _snapshot IS NULL THEN
+    RAISE EXCEPTION 'This message can''t be rewound' USING ERRCODE = 'PT409';
+  END IF;
+
+  -- The discarded path, shaped like sessions.transcript
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'role', role,
+      'content', content,
+      'coachTip', CASE WHEN coach_tip_id IS NULL THEN NULL
+        ELSE jsonb_build_object('id', coach_tip_id, 'variant', COALESCE(coach_tip_variant, 0)) END
+    )
+    ORDER BY position
+  ) INTO _turns
+  FROM public.session_turns
+  WHERE session_id = _session_id AND rewound_at IS NULL AND position >= _turn_index;
+
+  UPDATE public.session_turns
+  SET rewound_at = _rewound_at
+  WHERE session_id = _session_id AND rewound_at IS NULL AND position >= _turn_index;
+
+  UPDATE public.sessions
+  SET
+    branches = branches || jsonb_build_array(jsonb_build_object(
+      'at', _turn_index,
+      'rewoundAt', _rewound_at,
+      'turns', _turns
+    )),
+    -- Turn state as of the snapshot, snapshots only for messages still in the
+    -- transcript, and the exit grade only if it was given before the message
+    metadata = (COALESCE(metadata, '{}'::jsonb) - 'exitGrade')
+      || jsonb_build_object(
+        'turnState', _snapshot->'turnState',
+        'snapshots', COALESCE((
+          SELECT jsonb_object_agg(key, value)
+          FROM jsonb_each(metadata->'snapshots')
+          WHERE key::INTEGER < _turn_index
+        ), '{}'::jsonb)
+      )
+      || CASE WHEN jsonb_typeof(_snapshot->'exitGrade') = 'object'
+        THEN jsonb_build_object('exitGrade', _snapshot->'exitGrade')
+        ELSE '{}'::jsonb END
+  WHERE id = _session_id;
+
+  RETURN jsonb_build_object('turnState', _snapshot->'turnState', 'branch', jsonb_array_length(_session.branches) + 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rewind_session(UUID, INTEGER) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rewind_session(UUID, INTEGER) TO service_role;
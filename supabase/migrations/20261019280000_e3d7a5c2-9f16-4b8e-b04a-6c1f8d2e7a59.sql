@@ -0,0 +1,73 @@
+-- retention-purge marked a session purged before deleting its turns and
+-- moderation logs and writing the audit row, each in its own call. If a
+-- later step failed, the session was never selected again (it was already
+-- purged) and its content stayed with no audit row. Each purge is now one
+-- transaction.
+
+-- Purge one session's content and record it; false if it was already purged
+CREATE OR REPLACE FUNCTION public.purge_session_content(_session_id UUID, _category TEXT, _retention_days INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+  _turns_deleted INTEGER;
+  _logs_deleted INTEGER;
+BEGIN
+  SELECT * INTO _session FROM public.sessions
+  WHERE id = _session_id AND purged_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Marked first, so deleting the turns doesn't rebuild the transcript
+  -- (or zero total_turns)
+  UPDATE public.sessions
+  SET purged_at = NOW(), transcript = '[]'::jsonb, branches = '[]'::jsonb
+  WHERE id = _session_id;
+
+  DELETE FROM public.session_turns WHERE session_id = _session_id;
+  GET DIAGNOSTICS _turns_deleted = ROW_COUNT;
+
+  DELETE FROM public.moderation_logs WHERE session_id = _session_id;
+  GET DIAGNOSTICS _logs_deleted = ROW_COUNT;
+
+  INSERT INTO public.retention_purges (
+    category, retention_days, session_id, session_code,
+    turns_deleted, branches_deleted, moderation_logs_deleted
+  ) VALUES (
+    _category, _retention_days, _session_id, _session.session_id,
+    _turns_deleted, jsonb_array_length(_session.branches), _logs_deleted
+  );
+  RETURN TRUE;
+END;
+$$;
+
+-- Delete blocked replies older than the cutoff and record them
+CREATE OR REPLACE FUNCTION public.purge_moderation_logs(_blocked_before TIMESTAMPTZ, _retention_days INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.moderation_logs WHERE blocked_at < _blocked_before;
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  IF _deleted > 0 THEN
+    INSERT INTO public.retention_purges (category, retention_days, moderation_logs_deleted)
+    VALUES ('moderation_blocked', _retention_days, _deleted);
+  END IF;
+  RETURN _deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_session_content(UUID, TEXT, INTEGER) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_moderation_logs(TIMESTAMPTZ, INTEGER) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_session_content(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_moderation_logs(TIMESTAMPTZ, INTEGER) TO service_role;
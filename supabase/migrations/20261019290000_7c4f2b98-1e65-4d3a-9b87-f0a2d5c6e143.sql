@@ -0,0 +1,59 @@
+-- Learner profiles are rebuilt from session transcripts, so purging a
+-- transcript dropped that session's practice from the learner's progress and
+-- mastery. The session's tally (SessionTally in src/pages/learnerProfile.ts)
+-- is now kept on the row when its transcript is purged, and counts in its
+-- place. Sessions purged before this keep their empty transcript.
+ALTER TABLE public.sessions
+  ADD COLUMN skill_tally JSONB;
+
+DROP FUNCTION public.purge_session_content(UUID, TEXT, INTEGER);
+
+-- As before, and stores the session's tally in the same transaction
+CREATE FUNCTION public.purge_session_content(
+  _session_id UUID,
+  _category TEXT,
+  _retention_days INTEGER,
+  _skill_tally JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+  _turns_deleted INTEGER;
+  _logs_deleted INTEGER;
+BEGIN
+  SELECT * INTO _session FROM public.sessions
+  WHERE id = _session_id AND purged_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Marked first, so deleting the turns doesn't rebuild the transcript
+  -- (or zero total_turns)
+  UPDATE public.sessions
+  SET purged_at = NOW(), transcript = '[]'::jsonb, branches = '[]'::jsonb, skill_tally = _skill_tally
+  WHERE id = _session_id;
+
+  DELETE FROM public.session_turns WHERE session_id = _session_id;
+  GET DIAGNOSTICS _turns_deleted = ROW_COUNT;
+
+  DELETE FROM public.moderation_logs WHERE session_id = _session_id;
+  GET DIAGNOSTICS _logs_deleted = ROW_COUNT;
+
+  INSERT INTO public.retention_purges (
+    category, retention_days, session_id, session_code,
+    turns_deleted, branches_deleted, moderation_logs_deleted
+  ) VALUES (
+    _category, _retention_days, _session_id, _session.session_id,
+    _turns_deleted, jsonb_array_length(_session.branches), _logs_deleted
+  );
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_session_content(UUID, TEXT, INTEGER, JSONB) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_session_content(UUID, TEXT, INTEGER, JSONB) TO service_role;
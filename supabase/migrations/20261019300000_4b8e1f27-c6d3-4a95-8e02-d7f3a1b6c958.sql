@@ -0,0 +1,78 @@
+-- jordan-turn read the session once, then after the reply appended its rows
+-- at the transcript length and branch it had read and overwrote metadata
+-- with its copy. A rewind or another turn that finished in the meantime was
+-- undone, or left a gap in the transcript. save_turn appends the rows and
+-- writes the turn state in one transaction, holding the session row, and
+-- refuses if the session moved on since the turn read it.
+CREATE OR REPLACE FUNCTION public.save_turn(
+  _session_id UUID,
+  _turn_id UUID,
+  -- Branch and transcript length the turn ran against
+  _branch INTEGER,
+  _position INTEGER,
+  -- session_turns columns for each row, in order
+  _turns JSONB,
+  -- NULL for a crisis, which ends the session instead
+  _turn_state JSONB DEFAULT NULL,
+  -- State before the turn, for rewinding to it
+  _snapshot JSONB DEFAULT NULL,
+  _exit_grade JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid session' USING ERRCODE = 'PT401';
+  END IF;
+  IF _session.ended_at IS NOT NULL OR _session.crisis_detected THEN
+    RAISE EXCEPTION 'Session has ended' USING ERRCODE = 'PT409';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.session_turns WHERE session_id = _session_id AND turn_id = _turn_id) THEN
+    RAISE EXCEPTION 'Turn already recorded' USING ERRCODE = 'PT409';
+  END IF;
+  IF jsonb_array_length(_session.branches) <> _branch
+    OR (SELECT COUNT(*) FROM public.session_turns WHERE session_id = _session_id AND rewound_at IS NULL) <> _position
+  THEN
+    RAISE EXCEPTION 'The conversation changed while this message was answered' USING ERRCODE = 'PT409';
+  END IF;
+
+  INSERT INTO public.session_turns (
+    session_id, turn_id, seq, position, branch, role, content, coach_tip_id, coach_tip_variant,
+    coach_type, latency_ms, model, moderation_verdict
+  )
+  SELECT
+    _session_id, _turn_id, (t.ordinality - 1)::SMALLINT, _position + (t.ordinality - 1)::INTEGER, _branch,
+    r.role, r.content, r.coach_tip_id, r.coach_tip_variant,
+    r.coach_type, r.latency_ms, r.model, r.moderation_verdict
+  FROM jsonb_array_elements(_turns) WITH ORDINALITY AS t(turn, ordinality)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.session_turns, t.turn) AS r;
+
+  IF _turn_state IS NULL THEN
+    UPDATE public.sessions
+    SET crisis_detected = TRUE, ended_at = NOW()
+    WHERE id = _session_id;
+  ELSE
+    -- Merged into the metadata as it is now, keeping the snapshots of
+    -- earlier messages
+    UPDATE public.sessions
+    SET metadata = COALESCE(metadata, '{}'::jsonb)
+      || jsonb_build_object(
+        'turnState', _turn_state,
+        'snapshots', COALESCE(metadata->'snapshots', '{}'::jsonb) || jsonb_build_object(_position::TEXT, _snapshot)
+      )
+      || CASE WHEN _exit_grade IS NOT NULL
+        THEN jsonb_build_object('exitGrade', _exit_grade)
+        ELSE '{}'::jsonb END
+    WHERE id = _session_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_turn(UUID, UUID, INTEGER, INTEGER, JSONB, JSONB, JSONB, JSONB) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_turn(UUID, UUID, INTEGER, INTEGER, JSONB, JSONB, JSONB, JSONB) TO service_role;